@@ -0,0 +1,111 @@
+/**
+ * Fetch implementation used to send requests.
+ */
+export type FetchAdapter = (
+  input: string,
+  init?: RequestInit,
+) => Promise<Response>;
+
+/**
+ * Synchronous key-value storage used to persist session data,
+ * such as the `cookieFallback` of the client.
+ */
+export interface StorageAdapter {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+/**
+ * Storage kept in memory for the lifetime of the instance.
+ *
+ * Suited for request-scoped clients in SSR, edge workers and tests.
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  private items = new Map<string, string>();
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+}
+
+/**
+ * Storage backed by the browser `localStorage`, the default in browsers.
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  private storage: Storage;
+
+  constructor(storage: Storage = window.localStorage) {
+    this.storage = storage;
+  }
+
+  getItem(key: string): string | null {
+    return this.storage.getItem(key);
+  }
+
+  setItem(key: string, value: string): void {
+    this.storage.setItem(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.storage.removeItem(key);
+  }
+}
+
+/**
+ * Storage backed by a cookie string, such as the `Cookie` header of a request.
+ *
+ * Use `toString()` to read the updated cookie string back.
+ */
+export class CookieStorageAdapter implements StorageAdapter {
+  private items = new Map<string, string>();
+
+  /**
+   * @param {string} cookies - Cookie string in the `name=value; name2=value2` format.
+   */
+  constructor(cookies: string = "") {
+    for (const pair of cookies.split(";")) {
+      const index = pair.indexOf("=");
+      if (index === -1) continue;
+
+      const key = pair.slice(0, index).trim();
+      if (key) {
+        this.items.set(key, decode(pair.slice(index + 1).trim()));
+      }
+    }
+  }
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+
+  toString(): string {
+    return [...this.items]
+      .map(([key, value]) => `${key}=${encodeURIComponent(value)}`)
+      .join("; ");
+  }
+}
+
+function decode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
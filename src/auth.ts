@@ -0,0 +1,575 @@
+import { BaseClient, NuvixException } from "./base-client";
+import type { Models } from "./models";
+import { Account } from "./services/account";
+import { isMfaRequired, MfaFlow } from "./mfa";
+import type { AuthOptions, RequestContext } from "./type";
+import {
+  createCodeChallenge,
+  getOAuthCallbackUrl,
+  getOAuthUrl,
+  NativeOAuthFlow,
+  NativeOAuthOptions,
+  openOAuthPopup,
+  OAuthPopupOptions,
+  parseOAuthCallback,
+  randomString,
+  verifyOAuthCallback,
+} from "./oauth";
+
+/**
+ * Auth state change events.
+ */
+export type AuthChangeEvent =
+  "SIGNED_IN" | "SIGNED_OUT" | "SESSION_REFRESHED" | "USER_UPDATED";
+
+export type AuthStateChangeCallback = (
+  event: AuthChangeEvent,
+  session: Models.Session | null,
+) => void;
+
+type AuthMessage = {
+  event: AuthChangeEvent;
+  session: Models.Session | null;
+  user: Models.User<Models.Preferences> | null;
+};
+
+/** Largest delay accepted by `setTimeout` */
+const MAX_TIMEOUT = 2147483647;
+
+/** Delay before retrying a failed refresh */
+const REFRESH_RETRY = 10000;
+
+/** Storage key of the verifier of a pending native OAuth2 flow */
+const VERIFIER_KEY = "nuvixOAuthVerifier";
+
+/** Lifetime assumed for JWTs without an `exp` claim */
+const JWT_LIFETIME = 15 * 60 * 1000;
+
+/**
+ * Auth
+ *
+ * Tracks the logged in user and session of the client. Requests made through
+ * `client.account` (sign-in, sign-out, session and user updates) are observed
+ * to keep the state current and notify `onAuthStateChange` listeners.
+ * Tracking starts when `client.auth` is first accessed.
+ */
+export class Auth<T extends BaseClient> {
+  client: T;
+
+  private account: Account<T>;
+  private options: Required<AuthOptions>;
+  private listeners = new Set<AuthStateChangeCallback>();
+  private channel: BroadcastChannel | null = null;
+  private refreshTimer?: ReturnType<typeof setTimeout>;
+  private removeMiddleware: () => void;
+
+  private _user: Models.User<Models.Preferences> | null = null;
+  private _session: Models.Session | null = null;
+
+  private jwt: { enabled: boolean; refreshMargin: number } = {
+    enabled: false,
+    refreshMargin: 60000,
+  };
+  private token: { value: string; expiresAt: number } | null = null;
+  private minting: Promise<string> | null = null;
+  /** Options of requests already retried with a fresh JWT */
+  private retried = new WeakSet<object>();
+  private _mfa?: MfaFlow<T>;
+
+  constructor(client: T, options: AuthOptions = {}) {
+    this.client = client;
+    this.account = new Account(client);
+    this.options = {
+      autoRefresh: typeof window !== "undefined",
+      refreshMargin: 60000,
+      syncTabs: typeof window !== "undefined",
+      ...options,
+    };
+
+    this.removeMiddleware = this.client.use({
+      onRequest: (request) => this.onRequest(request),
+      onResponse: (response, request) => this.onResponse(response, request),
+      onError: (error, request) => this.onError(error, request),
+    });
+
+    if (this.options.syncTabs && typeof BroadcastChannel !== "undefined") {
+      this.channel = new BroadcastChannel(
+        `nuvix-auth-${this.client.config.project}`,
+      );
+      this.channel.onmessage = (event: MessageEvent<AuthMessage>) => {
+        const { event: change, session, user } = event.data;
+        this.apply(change, session, user, false);
+      };
+    }
+  }
+
+  /**
+   * The currently logged in user, if known.
+   */
+  get user(): Models.User<Models.Preferences> | null {
+    return this._user;
+  }
+
+  /**
+   * The current session, if known.
+   */
+  get session(): Models.Session | null {
+    return this._session;
+  }
+
+  /**
+   * Guided sign-in flow for users with multi-factor authentication.
+   */
+  get mfa(): MfaFlow<T> {
+    if (!this._mfa) this._mfa = new MfaFlow(this.client);
+    return this._mfa;
+  }
+
+  /**
+   * Load the current session and user from the server.
+   *
+   * Emits `SIGNED_IN` when a session is found that was not known yet.
+   *
+   * @returns {Promise<Models.Session | null>}
+   */
+  async load(): Promise<Models.Session | null> {
+    try {
+      await this.client.unwrap(this.account.getSession("current"));
+      if (!this._user) {
+        await this.client.unwrap(this.account.get());
+      }
+    } catch (e) {
+      if (!(e instanceof NuvixException) || e.code !== 401) throw e;
+    }
+    return this._session;
+  }
+
+  /**
+   * Listen to auth state changes.
+   *
+   * @param {AuthStateChangeCallback} callback
+   * @returns {() => void} Function to remove the listener.
+   */
+  onAuthStateChange(callback: AuthStateChangeCallback): () => void {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  /**
+   * Extend the current session, emitting `SESSION_REFRESHED`.
+   *
+   * @returns {Promise<Models.Session>}
+   */
+  async refreshSession(): Promise<Models.Session> {
+    return await this.client.unwrap(this.account.updateSession("current"));
+  }
+
+  /**
+   * Sign in with an OAuth2 provider in a popup, keeping the page state.
+   *
+   * The `redirectUrl` page must call `handleOAuthCallback()`, which posts the
+   * result back to this window. With the `token` flow the returned
+   * `userId`/`secret` pair is exchanged with `account.createSession()`.
+   *
+   * @param {OAuthPopupOptions} options
+   * @returns {Promise<Models.Session>}
+   */
+  async signInWithOAuthPopup(
+    options: OAuthPopupOptions,
+  ): Promise<Models.Session> {
+    const { provider, scopes, flow = "token" } = options;
+    const state = randomString(16);
+    const redirectUrl =
+      typeof window !== "undefined"
+        ? new URL(options.redirectUrl, window.location.href).toString()
+        : options.redirectUrl;
+
+    const url = getOAuthUrl(
+      this.client,
+      flow,
+      provider,
+      getOAuthCallbackUrl(redirectUrl, "success", state),
+      getOAuthCallbackUrl(redirectUrl, "failure", state),
+      scopes,
+    );
+
+    const callback = await openOAuthPopup(url, state, options);
+
+    if (flow === "session") {
+      return await this.client.unwrap(this.account.getSession("current"));
+    }
+
+    if (!callback.userId || !callback.secret) {
+      throw new NuvixException(
+        "OAuth2 callback is missing the user ID or secret",
+        0,
+        "oauth_failed",
+      );
+    }
+
+    return await this.client.unwrap(
+      this.account.createSession(callback.userId, callback.secret),
+    );
+  }
+
+  /**
+   * Start an OAuth2 flow for native and desktop apps.
+   *
+   * Open the returned `url` in the system browser. The provider redirects to
+   * the `redirectUrl` deep link, to pass to `completeNativeOAuthFlow()`.
+   * The verifier is kept in the session storage of the client, if any.
+   *
+   * @param {NativeOAuthOptions} options
+   * @returns {Promise<NativeOAuthFlow>}
+   */
+  async createNativeOAuthFlow({
+    provider,
+    redirectUrl,
+    failureUrl = redirectUrl,
+    scopes,
+  }: NativeOAuthOptions): Promise<NativeOAuthFlow> {
+    const verifier = randomString(32);
+    const state = await createCodeChallenge(verifier);
+
+    const url = getOAuthUrl(
+      this.client,
+      "token",
+      provider,
+      getOAuthCallbackUrl(redirectUrl, "success", state),
+      getOAuthCallbackUrl(failureUrl, "failure", state),
+      scopes,
+    );
+
+    this.client.sessionStorage?.setItem(VERIFIER_KEY, verifier);
+
+    return { url, state, verifier };
+  }
+
+  /**
+   * Complete a native OAuth2 flow from the deep link it redirected to.
+   *
+   * The state of the link is validated against the verifier before the
+   * `userId`/`secret` pair is exchanged with `account.createSession()`.
+   *
+   * @param {string} url - The deep link received by the app.
+   * @param {string} verifier - Verifier of the flow, read from the session storage if omitted.
+   * @returns {Promise<Models.Session>}
+   */
+  async completeNativeOAuthFlow(
+    url: string,
+    verifier?: string,
+  ): Promise<Models.Session> {
+    verifier ??= this.client.sessionStorage?.getItem(VERIFIER_KEY) ?? "";
+    if (!verifier) {
+      throw new NuvixException(
+        "No pending OAuth2 flow to complete",
+        0,
+        "oauth_state_mismatch",
+      );
+    }
+
+    const { userId, secret } = verifyOAuthCallback(
+      parseOAuthCallback(url),
+      await createCodeChallenge(verifier),
+    );
+    this.client.sessionStorage?.removeItem(VERIFIER_KEY);
+
+    return await this.client.unwrap(this.account.createSession(userId, secret));
+  }
+
+  /**
+   * Enable JWT mode.
+   *
+   * While a session is known, a JWT is minted with `account.createJWT()` and
+   * attached to every request, then minted again shortly before it expires.
+   * Requests rejected with a 401 are retried once with a fresh JWT.
+   *
+   * @param {object} options
+   * @param {number} options.refreshMargin - How long before expiry the JWT is minted again, in milliseconds.
+   * @returns {this}
+   */
+  enableJWT({ refreshMargin = 60000 }: { refreshMargin?: number } = {}): this {
+    this.jwt = { enabled: true, refreshMargin };
+    return this;
+  }
+
+  /**
+   * Disable JWT mode.
+   *
+   * @returns {this}
+   */
+  disableJWT(): this {
+    this.jwt.enabled = false;
+    this.token = null;
+    return this;
+  }
+
+  /**
+   * Get a valid JWT, minting a new one if needed.
+   *
+   * Useful to authenticate requests to your own backend.
+   *
+   * @param {boolean} force - Mint a new JWT even if the current one is valid.
+   * @returns {Promise<string>}
+   */
+  async getJWT(force = false): Promise<string> {
+    if (
+      !force &&
+      this.token &&
+      this.token.expiresAt - this.jwt.refreshMargin > Date.now()
+    ) {
+      return this.token.value;
+    }
+
+    this.minting ??= this.client
+      .unwrap(this.account.createJWT())
+      .then(({ jwt }: Models.Jwt) => {
+        this.token = { value: jwt, expiresAt: getExpiry(jwt) };
+        return jwt;
+      })
+      .finally(() => {
+        this.minting = null;
+      });
+
+    return await this.minting;
+  }
+
+  /**
+   * Stop tracking the auth state.
+   */
+  destroy(): void {
+    this.removeMiddleware();
+    clearTimeout(this.refreshTimer);
+    this.channel?.close();
+    this.channel = null;
+    this.listeners.clear();
+  }
+
+  private async onRequest(request: RequestContext): Promise<undefined> {
+    if (!this.jwt.enabled) return;
+
+    // The JWT itself is minted with the session
+    if (this.getPath(request.url) === "/account/jwts") {
+      delete request.headers["X-Nuvix-JWT"];
+      return;
+    }
+
+    // Not signed in, minting would fail on every request
+    if (this._session == null) {
+      delete request.headers["X-Nuvix-JWT"];
+      return;
+    }
+
+    try {
+      request.headers["X-Nuvix-JWT"] = await this.getJWT();
+    } catch {
+      // Not signed in, send the request without JWT
+      delete request.headers["X-Nuvix-JWT"];
+    }
+  }
+
+  private async onResponse(
+    response: any,
+    { method, url }: RequestContext,
+  ): Promise<undefined> {
+    const path = this.getPath(url);
+    if (!path?.startsWith("/account")) return;
+
+    const [, , resource, id] = path.split("/");
+
+    const signedIn =
+      resource === "sessions"
+        ? (method === "POST" && ["anonymous", "email", "token"].includes(id)) ||
+          (method === "PUT" && ["magic-url", "phone"].includes(id)) ||
+          (method === "GET" && !this._session && this.isCurrent(id, response))
+        : method === "PUT" && path === "/account/mfa/challenge";
+
+    if (signedIn) {
+      // Resolve the user before notifying listeners
+      this.setSession(response);
+      const user = await this.client
+        .unwrap(this.account.get())
+        .catch((e: unknown) => e);
+
+      // Signed in once the remaining MFA challenge is verified
+      if (isMfaRequired(user)) return;
+
+      this.apply(
+        "SIGNED_IN",
+        response,
+        user instanceof Error ? null : (user as Models.User<any>),
+      );
+      return;
+    }
+
+    if (resource === "sessions") {
+      if (method === "GET" && id && this.isCurrent(id, response)) {
+        this.setSession(response);
+      } else if (method === "PATCH" && this.isCurrent(id, response)) {
+        this.apply("SESSION_REFRESHED", response, this._user);
+      } else if (method === "DELETE" && (!id || this.isCurrent(id))) {
+        this.apply("SIGNED_OUT", null, null);
+      }
+      return;
+    }
+
+    if (path === "/account" && method === "GET") {
+      if (this._session) this._user = response;
+      return;
+    }
+
+    if (resource === "status" && method === "PATCH") {
+      this.apply("SIGNED_OUT", null, null);
+      return;
+    }
+
+    if (
+      (method === "PATCH" || method === "PUT") &&
+      (["name", "email", "password", "phone", "prefs"].includes(resource) ||
+        path === "/account/mfa" ||
+        path.startsWith("/account/mfa/authenticators/"))
+    ) {
+      this.apply("USER_UPDATED", this._session, response);
+    }
+  }
+
+  private async onError(
+    error: NuvixException,
+    request: RequestContext,
+  ): Promise<unknown> {
+    const { method, url, headers, params, responseType, options } = request;
+    const path = this.getPath(url);
+
+    if (
+      error.code === 401 &&
+      !isMfaRequired(error) &&
+      headers["X-Nuvix-JWT"] &&
+      this.jwt.enabled &&
+      !this.retried.has(options)
+    ) {
+      // Retry once with a fresh JWT
+      const retry = { ...options };
+      this.retried.add(retry);
+      this.token = null;
+      return await this.client.call(
+        method,
+        url,
+        headers,
+        params,
+        responseType,
+        retry,
+      );
+    }
+
+    const current =
+      (method === "GET" &&
+        (path === "/account" || path === "/account/sessions/current")) ||
+      (method === "PATCH" && path === "/account/sessions/current");
+
+    // The session expired or was revoked elsewhere
+    if (
+      current &&
+      error.code === 401 &&
+      !isMfaRequired(error) &&
+      this._session
+    ) {
+      this.apply("SIGNED_OUT", null, null);
+    }
+  }
+
+  private apply(
+    event: AuthChangeEvent,
+    session: Models.Session | null,
+    user: Models.User<Models.Preferences> | null,
+    broadcast = true,
+  ): void {
+    this.setSession(session);
+    this._user = user;
+
+    if (event === "SIGNED_IN" || event === "SIGNED_OUT") {
+      this.token = null;
+    }
+
+    if (broadcast) {
+      this.channel?.postMessage({ event, session, user } as AuthMessage);
+    }
+
+    this.emit(event);
+  }
+
+  private emit(event: AuthChangeEvent): void {
+    for (const listener of [...this.listeners]) {
+      try {
+        listener(event, this._session);
+      } catch (e) {
+        console.error(e);
+      }
+    }
+  }
+
+  private setSession(session: Models.Session | null): void {
+    this._session = session;
+    this.scheduleRefresh();
+  }
+
+  private scheduleRefresh(delay?: number): void {
+    clearTimeout(this.refreshTimer);
+    if (!this.options.autoRefresh || !this._session) return;
+
+    const refreshAt =
+      new Date(this._session.expire).getTime() - this.options.refreshMargin;
+    delay ??= refreshAt - Date.now();
+
+    this.refreshTimer = setTimeout(
+      () => {
+        if (Date.now() < refreshAt) {
+          // Long-lived sessions exceed the largest timer delay
+          this.scheduleRefresh();
+          return;
+        }
+        this.refreshSession().catch((e) => {
+          if (!(e instanceof NuvixException) || e.code !== 401) {
+            this.scheduleRefresh(REFRESH_RETRY);
+          }
+        });
+      },
+      Math.min(Math.max(delay, 0), MAX_TIMEOUT),
+    );
+  }
+
+  private isCurrent(id: string, session?: Models.Session): boolean {
+    return (
+      id === "current" ||
+      session?.current === true ||
+      (!!this._session && id === this._session.$id)
+    );
+  }
+
+  /**
+   * Path of a request URL relative to the endpoint, or null for other hosts.
+   */
+  private getPath(url: URL): string | null {
+    const endpoint = new URL(this.client.config.endpoint);
+    const base = endpoint.pathname.replace(/\/$/, "");
+    if (url.origin !== endpoint.origin || !url.pathname.startsWith(base)) {
+      return null;
+    }
+    return url.pathname.slice(base.length);
+  }
+}
+
+/**
+ * Expiry time of a JWT in milliseconds, read from its `exp` claim.
+ */
+function getExpiry(jwt: string): number {
+  try {
+    const payload = jwt.split(".")[1].replace(/-/g, "+").replace(/_/g, "/");
+    const { exp } = JSON.parse(atob(payload));
+    if (typeof exp === "number") return exp * 1000;
+  } catch {
+    // Not a decodable JWT
+  }
+  return Date.now() + JWT_LIFETIME;
+}
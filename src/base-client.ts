@@ -1,20 +1,35 @@
 import {
+  AuthOptions,
+  ClientOptions,
   Config,
   Headers,
+  Middleware,
   Payload,
   PromiseResponseType,
-  // Realtime,
-  // RealtimeRequest,
-  // RealtimeResponse,
-  // RealtimeResponseConnected,
-  // RealtimeResponseError,
+  Realtime,
+  RealtimeRequest,
+  RealtimeResponse,
+  RealtimeResponseConnected,
+  RealtimeResponseError,
   RealtimeResponseEvent,
+  RequestContext,
+  RequestOptions,
   ResponseType,
+  RetryOptions,
+  SavedUpload,
+  UploadOptions,
   UploadProgress,
 } from "./type";
+import type { UploadControl } from "./upload";
 import { Models } from "./models";
-// import { io } from "socket.io-client";
-import { NuvixException } from "./error";
+import {
+  NuvixAbortException,
+  NuvixException,
+  NotFoundError,
+  createNuvixException,
+  toNuvixException,
+} from "./error";
+import { FetchAdapter, LocalStorageAdapter, StorageAdapter } from "./adapters";
 
 /**
  * BaseClient that handles requests to Nuvix
@@ -22,6 +37,17 @@ import { NuvixException } from "./error";
 class BaseClient<IsSafe extends boolean = false | true> {
   static CHUNK_SIZE = 1024 * 1024 * 5;
 
+  /**
+   * Default retry policy, used when retries are enabled without overrides.
+   */
+  static RETRY: RetryOptions = {
+    attempts: 3,
+    minDelay: 500,
+    maxDelay: 10000,
+    methods: ["GET", "PUT", "DELETE"],
+    statusCodes: [408, 429, 500, 502, 503, 504],
+  };
+
   public readonly safeResponse: IsSafe;
 
   /**
@@ -36,13 +62,62 @@ class BaseClient<IsSafe extends boolean = false | true> {
     session: "",
   };
 
+  /**
+   * Client-wide retry policy, disabled when null.
+   */
+  private retry: RetryOptions | null;
+
+  /**
+   * Default time limit of requests in milliseconds, disabled when 0.
+   */
+  private timeoutMs: number;
+
+  /**
+   * Default chunk size and concurrency of chunked uploads.
+   */
+  private uploadOptions: Required<UploadOptions>;
+
+  /**
+   * Fetch implementation used to send requests.
+   */
+  private fetchAdapter: FetchAdapter;
+
+  /**
+   * Storage persisting the session cookie fallback, if any.
+   */
+  readonly sessionStorage: StorageAdapter | null;
+
+  /**
+   * Options of the auth session manager.
+   */
+  protected authOptions: AuthOptions;
+
   constructor({
     safeResponse,
+    retry,
+    timeoutMs,
+    fetch: fetchAdapter,
+    sessionStorage,
+    auth,
+    upload,
     ...rest
-  }: Partial<Omit<Config, "endpointRealtime">> & {
-    safeResponse?: IsSafe;
-  } = {}) {
+  }: ClientOptions<IsSafe> = {}) {
     this.safeResponse = (safeResponse ?? false) as IsSafe;
+    this.retry = retry ? { ...BaseClient.RETRY, ...retry } : null;
+    this.timeoutMs = timeoutMs ?? 0;
+    this.uploadOptions = {
+      chunkSize: upload?.chunkSize ?? BaseClient.CHUNK_SIZE,
+      concurrency: upload?.concurrency ?? 1,
+    };
+    this.authOptions = auth ?? {};
+    // Resolved on every call so that fetch polyfills installed later apply
+    this.fetchAdapter = fetchAdapter ?? ((input, init) => fetch(input, init));
+    this.sessionStorage =
+      sessionStorage !== undefined
+        ? sessionStorage
+        : typeof window !== "undefined" && window.localStorage
+          ? new LocalStorageAdapter()
+          : null;
     this.config = {
       ...this.config,
       ...rest,
@@ -60,6 +135,29 @@ class BaseClient<IsSafe extends boolean = false | true> {
     "X-Nuvix-Response-Format": "1.0.0",
   };
 
+  /**
+   * Registered middlewares, in execution order.
+   */
+  private middlewares: Middleware[] = [];
+
+  /**
+   * Use Middleware
+   *
+   * Register hooks that observe or rewrite requests, responses and errors.
+   * Middlewares run in registration order.
+   *
+   * @param {Middleware} middleware
+   *
+   * @returns {() => void} Function to remove the middleware.
+   */
+  use(middleware: Middleware): () => void {
+    this.middlewares.push(middleware);
+
+    return () => {
+      this.middlewares = this.middlewares.filter((m) => m !== middleware);
+    };
+  }
+
   /**
    * Set Endpoint
    *
@@ -87,11 +185,11 @@ class BaseClient<IsSafe extends boolean = false | true> {
    *
    * @returns {this}
    */
-  // setEndpointRealtime(endpointRealtime: string): this {
-  //   this.config.endpointRealtime = endpointRealtime;
+  setEndpointRealtime(endpointRealtime: string): this {
+    this.config.endpointRealtime = endpointRealtime;
 
-  //   return this;
-  // }
+    return this;
+  }
 
   /**
    * Set Project
@@ -148,180 +246,198 @@ class BaseClient<IsSafe extends boolean = false | true> {
     return this;
   }
 
-  // private realtime: Realtime = {
-  //   socket: undefined,
-  //   timeout: undefined,
-  //   heartbeat: undefined,
-  //   url: "",
-  //   channels: new Set(),
-  //   subscriptions: new Map(),
-  //   subscriptionsCounter: 0,
-  //   reconnect: true,
-  //   reconnectAttempts: 0,
-  //   lastMessage: undefined,
-  //   connect: () => {
-  //     clearTimeout(this.realtime.timeout);
-  //     this.realtime.timeout = window?.setTimeout(() => {
-  //       this.realtime.createSocket();
-  //     }, 50);
-  //   },
-  //   getTimeout: () => {
-  //     switch (true) {
-  //       case this.realtime.reconnectAttempts < 5:
-  //         return 1000;
-  //       case this.realtime.reconnectAttempts < 15:
-  //         return 5000;
-  //       case this.realtime.reconnectAttempts < 100:
-  //         return 10_000;
-  //       default:
-  //         return 60_000;
-  //     }
-  //   },
-  //   createHeartbeat: () => {
-  //     if (this.realtime.heartbeat) {
-  //       clearTimeout(this.realtime.heartbeat);
-  //     }
-
-  //     this.realtime.heartbeat = window?.setInterval(() => {
-  //       this.realtime.socket?.send(
-  //         JSON.stringify({
-  //           type: "ping",
-  //         }),
-  //       );
-  //     }, 20_000);
-  //   },
-  //   createSocket: () => {
-  //     if (this.realtime.channels.size < 1) {
-  //       this.realtime.reconnect = false;
-  //       this.realtime.socket?.close();
-  //       return;
-  //     }
-
-  //     const channels = new URLSearchParams();
-  //     const _channels = Array.from(this.realtime.channels);
-  //     channels.set("project", this.config.project);
-  //     this.realtime.channels.forEach((channel) => {
-  //       channels.append("channels[]", channel);
-  //     });
-
-  //     const url =
-  //       this.config.endpointRealtime + "/realtime?" + channels.toString();
-
-  //     if (
-  //       url !== this.realtime.url || // Check if URL is present
-  //       !this.realtime.socket // Check if Socket.IO client has not been created
-  //     ) {
-  //       this.realtime.url = url;
-  //       this.realtime.socket?.disconnect();
-  //       this.realtime.socket = io(url, {
-  //         query: {
-  //           project: this.config.project,
-  //           channels: _channels.join(","),
-  //         },
-  //         reconnection: false,
-  //       });
-
-  //       this.realtime.socket.on("connect", () => {
-  //         this.realtime.reconnectAttempts = 0;
-  //       });
-
-  //       this.realtime.socket.on("disconnect", (reason: any) => {
-  //         if (
-  //           !this.realtime.reconnect ||
-  //           (this.realtime?.lastMessage?.type === "error" &&
-  //             (<RealtimeResponseError>this.realtime?.lastMessage.data).code ===
-  //               1008)
-  //         ) {
-  //           this.realtime.reconnect = true;
-  //           return;
-  //         }
-
-  //         const timeout = this.realtime.getTimeout();
-  //         console.error(
-  //           `Realtime disconnected. Reconnect in ${timeout / 1000} seconds. Reason: ${reason}`,
-  //         );
-
-  //         setTimeout(() => {
-  //           this.realtime.reconnectAttempts++;
-  //           this.realtime.createSocket();
-  //         }, timeout);
-  //       });
-
-  //       this.realtime.socket.on("message", this.realtime.onMessage);
-  //     }
-  //   },
-  //   onMessage: (event) => {
-  //     try {
-  //       const message: RealtimeResponse = JSON.parse(event.data);
-  //       this.realtime.lastMessage = message;
-  //       switch (message.type) {
-  //         case "connected":
-  //           const cookie = JSON.parse(
-  //             window.localStorage.getItem("cookieFallback") ?? "{}",
-  //           );
-  //           const session = cookie?.[`a_session_${this.config.project}`];
-  //           const messageData = <RealtimeResponseConnected>message.data;
-
-  //           if (session && !messageData.user) {
-  //             this.realtime.socket?.send(
-  //               JSON.stringify(<RealtimeRequest>{
-  //                 type: "authentication",
-  //                 data: {
-  //                   session,
-  //                 },
-  //               }),
-  //             );
-  //           }
-  //           break;
-  //         case "event":
-  //           let data = <RealtimeResponseEvent<unknown>>message.data;
-  //           if (data?.channels) {
-  //             const isSubscribed = data.channels.some((channel) =>
-  //               this.realtime.channels.has(channel),
-  //             );
-  //             if (!isSubscribed) return;
-  //             this.realtime.subscriptions.forEach((subscription) => {
-  //               if (
-  //                 data.channels.some((channel) =>
-  //                   subscription.channels.includes(channel),
-  //                 )
-  //               ) {
-  //                 setTimeout(() => subscription.callback(data));
-  //               }
-  //             });
-  //           }
-  //           break;
-  //         case "pong":
-  //           break; // Handle pong response if needed
-  //         case "error":
-  //           throw message.data;
-  //         default:
-  //           break;
-  //       }
-  //     } catch (e) {
-  //       console.error(e);
-  //     }
-  //   },
-  //   cleanUp: (channels) => {
-  //     this.realtime.channels.forEach((channel) => {
-  //       if (channels.includes(channel)) {
-  //         let found = Array.from(this.realtime.subscriptions).some(
-  //           ([_key, subscription]) => {
-  //             return subscription.channels.includes(channel);
-  //           },
-  //         );
-
-  //         if (!found) {
-  //           this.realtime.channels.delete(channel);
-  //         }
-  //       }
-  //     });
-  //   },
-  // };
+  private realtime: Realtime = {
+    socket: undefined,
+    timeout: undefined,
+    heartbeat: undefined,
+    url: "",
+    channels: new Set(),
+    subscriptions: new Map(),
+    subscriptionsCounter: 0,
+    reconnect: true,
+    reconnectAttempts: 0,
+    lastMessage: undefined,
+    connect: () => {
+      clearTimeout(this.realtime.timeout);
+      this.realtime.timeout = setTimeout(() => {
+        this.realtime.createSocket();
+      }, 50);
+    },
+    getTimeout: () => {
+      switch (true) {
+        case this.realtime.reconnectAttempts < 5:
+          return 1000;
+        case this.realtime.reconnectAttempts < 15:
+          return 5000;
+        case this.realtime.reconnectAttempts < 100:
+          return 10_000;
+        default:
+          return 60_000;
+      }
+    },
+    createHeartbeat: () => {
+      if (this.realtime.heartbeat) {
+        clearInterval(this.realtime.heartbeat);
+      }
+
+      this.realtime.heartbeat = setInterval(() => {
+        this.realtime.socket?.send(
+          JSON.stringify(<RealtimeRequest>{
+            type: "ping",
+          }),
+        );
+      }, 20_000);
+    },
+    createSocket: () => {
+      if (this.realtime.channels.size < 1) {
+        this.realtime.reconnect = false;
+        this.realtime.socket?.close();
+        return;
+      }
+
+      const channels = new URLSearchParams();
+      channels.set("project", this.config.project);
+      this.realtime.channels.forEach((channel) => {
+        channels.append("channels[]", channel);
+      });
+
+      const endpointRealtime =
+        this.config.endpointRealtime ||
+        this.config.endpoint
+          .replace("https://", "wss://")
+          .replace("http://", "ws://");
+      const url = endpointRealtime + "/realtime?" + channels.toString();
+
+      if (
+        url !== this.realtime.url || // Check if URL is present
+        !this.realtime.socket || // Check if WebSocket has not been created
+        this.realtime.socket.readyState > WebSocket.OPEN // Check if WebSocket is CLOSING (2) or CLOSED (3)
+      ) {
+        if (
+          this.realtime.socket &&
+          this.realtime.socket.readyState < WebSocket.CLOSING // Close WebSocket if it is CONNECTING (0) or OPEN (1)
+        ) {
+          this.realtime.reconnect = false;
+          this.realtime.socket.close();
+        }
+
+        const socket = new WebSocket(url);
+        this.realtime.url = url;
+        this.realtime.socket = socket;
+        socket.addEventListener("message", this.realtime.onMessage);
+        socket.addEventListener("open", () => {
+          this.realtime.reconnectAttempts = 0;
+          this.realtime.createHeartbeat();
+        });
+        socket.addEventListener("close", (event) => {
+          // A replaced socket must not tear down the heartbeat of its successor
+          if (this.realtime.socket === socket) {
+            clearInterval(this.realtime.heartbeat);
+            this.realtime.heartbeat = undefined;
+          }
+
+          if (
+            !this.realtime.reconnect ||
+            (this.realtime?.lastMessage?.type === "error" && // Check if last message was of type error
+              (<RealtimeResponseError>this.realtime?.lastMessage.data).code ===
+                1008) // Check for policy violation 1008
+          ) {
+            this.realtime.reconnect = true;
+            return;
+          }
+
+          const timeout = this.realtime.getTimeout();
+          console.error(
+            `Realtime disconnected. Reconnect in ${timeout / 1000} seconds.`,
+            event.reason,
+          );
+
+          setTimeout(() => {
+            this.realtime.reconnectAttempts++;
+            this.realtime.createSocket();
+          }, timeout);
+        });
+      }
+    },
+    onMessage: (event) => {
+      try {
+        const message: RealtimeResponse = JSON.parse(event.data);
+        this.realtime.lastMessage = message;
+        switch (message.type) {
+          case "connected":
+            let session = this.config.session;
+            if (!session && this.sessionStorage) {
+              const cookie = JSON.parse(
+                this.sessionStorage.getItem("cookieFallback") ?? "{}",
+              );
+              session = cookie?.[`a_session_${this.config.project}`];
+            }
+            const messageData = <RealtimeResponseConnected>message.data;
+
+            if (session && !messageData.user) {
+              this.realtime.socket?.send(
+                JSON.stringify(<RealtimeRequest>{
+                  type: "authentication",
+                  data: {
+                    session,
+                  },
+                }),
+              );
+            }
+            break;
+          case "event":
+            let data = <RealtimeResponseEvent<unknown>>message.data;
+            if (data?.channels) {
+              const isSubscribed = data.channels.some((channel) =>
+                this.realtime.channels.has(channel),
+              );
+              if (!isSubscribed) return;
+              this.realtime.subscriptions.forEach((subscription) => {
+                if (
+                  data.channels.some((channel) =>
+                    subscription.channels.includes(channel),
+                  )
+                ) {
+                  setTimeout(() => subscription.callback(data));
+                }
+              });
+            }
+            break;
+          case "pong":
+            break; // Heartbeat acknowledged, connection is alive
+          case "error":
+            throw message.data;
+          default:
+            break;
+        }
+      } catch (e) {
+        console.error(e);
+      }
+    },
+    cleanUp: (channels) => {
+      this.realtime.channels.forEach((channel) => {
+        if (channels.includes(channel)) {
+          let found = Array.from(this.realtime.subscriptions).some(
+            ([_key, subscription]) => {
+              return subscription.channels.includes(channel);
+            },
+          );
+
+          if (!found) {
+            this.realtime.channels.delete(channel);
+          }
+        }
+      });
+    },
+  };
 
   /**
    * Subscribes to Nuvix events and passes you the payload in realtime.
    *
+   * All subscriptions share a single WebSocket connection. The connection is
+   * kept alive with a heartbeat, re-established with a backoff when dropped,
+   * and authenticated with the current session if one is available.
+   *
    * @param {string|string[]} channels
    * Channel to subscribe - pass a single channel as a string or multiple with an array of strings.
    *
@@ -332,6 +448,7 @@ class BaseClient<IsSafe extends boolean = false | true> {
    * - collections.[ID].documents
    * - documents
    * - documents.[ID]
+   * - schemas.[SCHEMA].tables.[TABLE].rows
    * - files
    * - files.[ID]
    * - executions
@@ -344,27 +461,33 @@ class BaseClient<IsSafe extends boolean = false | true> {
    * @param {(payload: RealtimeMessage) => void} callback Is called on every realtime update.
    * @returns {() => void} Unsubscribes from events.
    */
-  // subscribe<T extends unknown>(
-  //   channels: string | string[],
-  //   callback: (payload: RealtimeResponseEvent<T>) => void,
-  // ): () => void {
-  //   let channelArray = typeof channels === "string" ? [channels] : channels;
-  //   channelArray.forEach((channel) => this.realtime.channels.add(channel));
-
-  //   const counter = this.realtime.subscriptionsCounter++;
-  //   this.realtime.subscriptions.set(counter, {
-  //     channels: channelArray,
-  //     callback,
-  //   });
-
-  //   this.realtime.connect();
-
-  //   return () => {
-  //     this.realtime.subscriptions.delete(counter);
-  //     this.realtime.cleanUp(channelArray);
-  //     this.realtime.connect();
-  //   };
-  // }
+  subscribe<T extends unknown>(
+    channels: string | string[],
+    callback: (payload: RealtimeResponseEvent<T>) => void,
+  ): () => void {
+    if (typeof WebSocket === "undefined") {
+      throw new NuvixException(
+        "Realtime is not supported in this environment: WebSocket is not available.",
+      );
+    }
+
+    let channelArray = typeof channels === "string" ? [channels] : channels;
+    channelArray.forEach((channel) => this.realtime.channels.add(channel));
+
+    const counter = this.realtime.subscriptionsCounter++;
+    this.realtime.subscriptions.set(counter, {
+      channels: channelArray,
+      callback,
+    });
+
+    this.realtime.connect();
+
+    return () => {
+      this.realtime.subscriptions.delete(counter);
+      this.realtime.cleanUp(channelArray);
+      this.realtime.connect();
+    };
+  }
 
   prepareRequest(
     method: string,
@@ -376,11 +499,9 @@ class BaseClient<IsSafe extends boolean = false | true> {
 
     headers = Object.assign({}, this.headers, headers);
 
-    if (typeof window !== "undefined" && window.localStorage) {
-      const cookieFallback = window.localStorage.getItem("cookieFallback");
-      if (cookieFallback) {
-        headers["X-Fallback-Cookies"] = cookieFallback;
-      }
+    const cookieFallback = this.sessionStorage?.getItem("cookieFallback");
+    if (cookieFallback) {
+      headers["X-Fallback-Cookies"] = cookieFallback;
     }
 
     let options: RequestInit = {
@@ -423,55 +544,229 @@ class BaseClient<IsSafe extends boolean = false | true> {
     return { uri: url.toString(), options };
   }
 
+  /**
+   * Upload a file in chunks of `chunkSize` bytes, `concurrency` chunks at a
+   * time once the first chunk created the file.
+   *
+   * With `getFile`, the upload is resumable: its file ID and received chunks
+   * are persisted in the session storage by bucket and file fingerprint, and
+   * an interrupted upload of the same file only sends the missing chunks, to
+   * the file ID of the interrupted upload.
+   *
+   * With `control`, the upload can be paused and cancelled, see `UploadTask`.
+   */
   async chunkedUpload(
     method: string,
     url: URL,
     headers: Headers = {},
     originalPayload: Payload = {},
     onProgress: (progress: UploadProgress) => void,
+    options: RequestOptions & UploadOptions = {},
+    getFile?: (fileId: string) => Promise<Models.File>,
+    control?: UploadControl,
   ) {
+    const {
+      chunkSize: size = this.uploadOptions.chunkSize,
+      concurrency = this.uploadOptions.concurrency,
+      ...requestOptions
+    } = options;
     const file = Object.values(originalPayload).find(
       (value) => value instanceof File,
     ) as File;
 
-    if (file.size <= BaseClient.CHUNK_SIZE) {
-      return await this.call(method, url, headers, originalPayload);
-    }
+    const storage = getFile ? this.sessionStorage : null;
+    const key = BaseClient.uploadKey(url, file);
+    const done = new Set<number>();
+    let chunkSize = size;
+    let fileId: string | null = null;
+    let sizeUploaded = 0;
+    let response: any = null;
 
-    let start = 0;
-    let response = null;
+    // An empty file is still sent as one chunk
+    const countChunks = () => Math.max(1, Math.ceil(file.size / chunkSize));
 
-    while (start < file.size) {
-      let end = start + BaseClient.CHUNK_SIZE; // Prepare end for the next chunk
-      if (end >= file.size) {
-        end = file.size; // Adjust for the last chunk to include the last byte
+    const report = () => {
+      const progress: UploadProgress = {
+        $id: fileId ?? "",
+        progress: file.size
+          ? Math.round((sizeUploaded / file.size) * 100)
+          : 100,
+        sizeUploaded,
+        chunksTotal: countChunks(),
+        chunksUploaded: done.size,
+      };
+      if (onProgress && typeof onProgress === "function") {
+        onProgress(progress);
       }
+      control?.progress(progress);
+    };
 
-      headers["content-range"] = `bytes ${start}-${end - 1}/${file.size}`;
-      const chunk = file.slice(start, end);
+    const saved = BaseClient.readUpload(storage?.getItem(key));
+    if (saved && getFile) {
+      try {
+        const uploaded = await getFile(saved.$id);
+        if (uploaded.chunksUploaded >= uploaded.chunksTotal) {
+          storage!.removeItem(key);
+          return uploaded;
+        }
+        chunkSize = saved.chunkSize;
+        // The saved upload may have been started with another, e.g. unique, ID
+        fileId = saved.$id;
+        originalPayload = { ...originalPayload, fileId };
+        const chunks =
+          saved.chunks ??
+          Array.from({ length: uploaded.chunksUploaded }, (_, i) => i);
+        for (const index of chunks) {
+          done.add(index);
+          sizeUploaded += BaseClient.chunkRange(index, chunkSize, file)[1];
+        }
+        report();
+      } catch (e) {
+        // The partial file is gone, start over
+        if (!(e instanceof NotFoundError)) throw e;
+        storage!.removeItem(key);
+      }
+    }
 
-      let payload = { ...originalPayload, file: new File([chunk], file.name) };
+    const chunksTotal = countChunks();
 
-      response = await this.call(method, url, headers, payload);
+    // Aborts the chunks in flight once one of them failed
+    const pool = new AbortController();
 
-      if (onProgress && typeof onProgress === "function") {
-        onProgress({
-          $id: response.$id,
-          progress: Math.round((end / file.size) * 100),
-          sizeUploaded: end,
-          chunksTotal: Math.ceil(file.size / BaseClient.CHUNK_SIZE),
-          chunksUploaded: Math.ceil(end / BaseClient.CHUNK_SIZE),
-        });
+    // Sends a chunk, again after a pause aborted it
+    const send = async (index: number) => {
+      const [start, length] = BaseClient.chunkRange(index, chunkSize, file);
+      const chunkHeaders: Headers = { ...headers };
+      let payload = originalPayload;
+      if (chunksTotal > 1) {
+        chunkHeaders["content-range"] =
+          `bytes ${start}-${start + length - 1}/${file.size}`;
+        payload = {
+          ...originalPayload,
+          file: new File([file.slice(start, start + length)], file.name),
+        };
       }
 
-      if (response && response.$id) {
-        headers["x-nuvix-id"] = response.$id;
+      while (true) {
+        await control?.ready();
+        if (fileId) chunkHeaders["x-nuvix-id"] = fileId;
+        const signal = control?.signal ?? requestOptions.signal;
+        const controller = new AbortController();
+        const abort = () => controller.abort();
+        if (signal?.aborted || pool.signal.aborted) {
+          abort();
+        } else {
+          signal?.addEventListener("abort", abort);
+          pool.signal.addEventListener("abort", abort);
+        }
+        try {
+          const result = await this.call(
+            method,
+            url,
+            chunkHeaders,
+            payload,
+            "json",
+            { ...requestOptions, signal: controller.signal },
+          );
+          if (result && result.$id) fileId = result.$id;
+          if (
+            !response ||
+            (result?.chunksUploaded ?? 0) >= (response.chunksUploaded ?? 0)
+          ) {
+            response = result;
+          }
+          done.add(index);
+          sizeUploaded += length;
+          if (fileId && chunksTotal > 1) {
+            storage?.setItem(
+              key,
+              JSON.stringify({
+                $id: fileId,
+                chunkSize,
+                chunks: [...done],
+              } as SavedUpload),
+            );
+          }
+          report();
+          return;
+        } catch (e) {
+          if (!control || !signal?.aborted || pool.signal.aborted) throw e;
+        } finally {
+          signal?.removeEventListener("abort", abort);
+          pool.signal.removeEventListener("abort", abort);
+        }
       }
+    };
 
-      start = end;
+    const queue: number[] = [];
+    for (let index = 0; index < chunksTotal; index++) {
+      if (!done.has(index)) queue.push(index);
     }
 
-    return response;
+    // The first chunk creates the file, the others need its ID
+    if (!fileId && queue.length) {
+      await send(queue.shift()!);
+    }
+
+    const errors: unknown[] = [];
+    const worker = async () => {
+      while (queue.length && !pool.signal.aborted) {
+        try {
+          await send(queue.shift()!);
+        } catch (e) {
+          errors.push(e);
+          pool.abort();
+          throw e;
+        }
+      }
+    };
+    // Settle the chunks in flight before failing, so that none of them
+    // writes the resume state after the upload was retried
+    await Promise.allSettled(
+      Array.from({ length: Math.max(1, concurrency) }, () => worker()),
+    );
+    if (errors.length) throw errors[0];
+
+    storage?.removeItem(key);
+    return response ?? (await getFile?.(fileId!));
+  }
+
+  /**
+   * Start offset and length of a chunk.
+   */
+  private static chunkRange(
+    index: number,
+    chunkSize: number,
+    file: File,
+  ): [number, number] {
+    const start = index * chunkSize;
+    return [start, Math.min(chunkSize, file.size - start)];
+  }
+
+  /**
+   * Storage key of a resumable upload, from the fingerprint of the file.
+   */
+  private static uploadKey(url: URL, file: File): string {
+    const fingerprint = [
+      url.toString(),
+      file.name,
+      file.size,
+      file.type,
+      file.lastModified,
+    ].join(":");
+    return `nuvixUpload:${fingerprint}`;
+  }
+
+  private static readUpload(value?: string | null): SavedUpload | null {
+    if (!value) return null;
+    try {
+      const saved = JSON.parse(value);
+      return typeof saved?.$id === "string" && saved.chunkSize > 0
+        ? saved
+        : null;
+    } catch {
+      return null;
+    }
   }
 
   async ping(): Promise<string> {
@@ -484,12 +779,129 @@ class BaseClient<IsSafe extends boolean = false | true> {
     headers: Headers = {},
     params: Payload = {},
     responseType = "json",
+    options: RequestOptions = {},
+  ): Promise<any> {
+    const request: RequestContext = {
+      method: method.toUpperCase(),
+      url,
+      headers: { ...this.headers, ...headers },
+      params,
+      responseType,
+      options,
+    };
+    const middlewares = [...this.middlewares];
+
+    try {
+      let data: any = undefined;
+
+      for (const middleware of middlewares) {
+        data = await middleware.onRequest?.(request);
+        if (data !== undefined) break;
+      }
+
+      if (data === undefined) {
+        data = await this.send(request);
+      }
+
+      for (const middleware of middlewares) {
+        const result = await middleware.onResponse?.(data, request);
+        if (result !== undefined) data = result;
+      }
+
+      return data;
+    } catch (e) {
+      if (!(e instanceof NuvixException)) throw e;
+
+      let error = e;
+      for (const middleware of middlewares) {
+        const result = await middleware.onError?.(error, request);
+        if (result instanceof NuvixException) {
+          error = result;
+        } else if (result !== undefined) {
+          return result;
+        }
+      }
+
+      throw error;
+    }
+  }
+
+  private async send(request: RequestContext): Promise<any> {
+    const { signal } = request.options;
+    const timeoutMs = request.options.timeoutMs ?? this.timeoutMs;
+
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    let timedOut = false;
+
+    const timer = timeoutMs
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeoutMs)
+      : undefined;
+
+    if (signal?.aborted) {
+      abort();
+    } else {
+      signal?.addEventListener("abort", abort);
+    }
+
+    try {
+      return await this.dispatch(request, controller.signal);
+    } catch (e) {
+      if (!controller.signal.aborted) throw e;
+
+      throw timedOut
+        ? new NuvixAbortException(
+            `Request timed out after ${timeoutMs}ms`,
+            "timeout",
+          )
+        : new NuvixAbortException("Request was aborted", "aborted");
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", abort);
+    }
+  }
+
+  private async dispatch(
+    { method, url, headers, params, responseType, options }: RequestContext,
+    signal: AbortSignal,
   ): Promise<any> {
-    const { uri, options } = this.prepareRequest(method, url, headers, params);
+    const request = this.prepareRequest(method, new URL(url), headers, params);
+    const retry = this.getRetryPolicy(method, options.retry);
 
     let data: any = null;
+    let response: Response;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        response = await this.fetchAdapter(request.uri, {
+          ...request.options,
+          signal,
+        });
+      } catch (e) {
+        // Network failure
+        if (signal.aborted || !retry || attempt >= retry.attempts) throw e;
+        await BaseClient.sleep(BaseClient.backoff(retry, attempt), signal);
+        continue;
+      }
 
-    const response = await fetch(uri, options);
+      if (
+        !retry ||
+        attempt >= retry.attempts ||
+        !retry.statusCodes.includes(response.status)
+      ) {
+        break;
+      }
+
+      const delay =
+        BaseClient.retryAfter(response) ?? BaseClient.backoff(retry, attempt);
+      if (delay > retry.maxDelay) break;
+      await BaseClient.sleep(delay, signal);
+    }
+
+    options.onResponse?.(response);
 
     const warnings = response.headers.get("x-nuvix-warning");
     if (warnings) {
@@ -509,7 +921,7 @@ class BaseClient<IsSafe extends boolean = false | true> {
     }
 
     if (400 <= response.status) {
-      throw new NuvixException(
+      throw createNuvixException(
         data?.message,
         response.status,
         data?.type,
@@ -519,20 +931,87 @@ class BaseClient<IsSafe extends boolean = false | true> {
 
     const cookieFallback = response.headers.get("X-Fallback-Cookies");
 
-    if (
-      typeof window !== "undefined" &&
-      window.localStorage &&
-      cookieFallback
-    ) {
-      window.console.warn(
-        "Nuvix is using localStorage for session management. Increase your security by adding a custom domain as your API endpoint.",
-      );
-      window.localStorage.setItem("cookieFallback", cookieFallback);
+    if (this.sessionStorage && cookieFallback) {
+      if (this.sessionStorage instanceof LocalStorageAdapter) {
+        console.warn(
+          "Nuvix is using localStorage for session management. Increase your security by adding a custom domain as your API endpoint.",
+        );
+      }
+      this.sessionStorage.setItem("cookieFallback", cookieFallback);
     }
 
     return data;
   }
 
+  /**
+   * Resolves the retry policy of a request, or null when it must not be retried.
+   */
+  private getRetryPolicy(
+    method: string,
+    retry: RequestOptions["retry"],
+  ): RetryOptions | null {
+    if (retry === false || (!retry && !this.retry)) {
+      return null;
+    }
+
+    const policy: RetryOptions = {
+      ...BaseClient.RETRY,
+      ...this.retry,
+      ...(typeof retry === "object" ? retry : {}),
+    };
+
+    // `retry: true` opts in any method, including POST
+    if (retry !== true && !policy.methods.includes(method)) {
+      return null;
+    }
+
+    return policy;
+  }
+
+  /**
+   * Exponential backoff with full jitter.
+   */
+  private static backoff(retry: RetryOptions, attempt: number): number {
+    const delay = Math.min(
+      retry.maxDelay,
+      retry.minDelay * Math.pow(2, attempt - 1),
+    );
+    return Math.round(Math.random() * delay);
+  }
+
+  /**
+   * Delay requested by the `Retry-After` header, in milliseconds.
+   */
+  private static retryAfter(response: Response): number | null {
+    const header = response.headers.get("retry-after");
+    if (!header) return null;
+
+    const seconds = Number(header);
+    if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+    const date = Date.parse(header);
+    return isNaN(date) ? null : Math.max(0, date - Date.now());
+  }
+
+  /**
+   * Wait for `ms` milliseconds, rejecting with the reason of `signal` once it
+   * is aborted.
+   */
+  static sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) return reject(signal.reason);
+      const abort = () => {
+        clearTimeout(timer);
+        reject(signal?.reason);
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener("abort", abort);
+        resolve();
+      }, ms);
+      signal?.addEventListener("abort", abort, { once: true });
+    });
+  }
+
   static flatten(data: Payload, prefix = ""): Payload {
     let output: Payload = {};
 
@@ -548,37 +1027,75 @@ class BaseClient<IsSafe extends boolean = false | true> {
     return output;
   }
 
+  /**
+   * Run a request, resolving to a `Result` instead of throwing in safe response mode.
+   *
+   * Lists keep their `total` next to `data`, and every error is normalized
+   * to a `NuvixException`.
+   *
+   * @param {() => Promise<R>} callback
+   * @returns {PromiseResponseType<this, Awaited<R>>}
+   */
   async withSafeResponse<R>(
     callback: () => Promise<R>,
-  ): PromiseResponseType<BaseClient, Awaited<R>> {
+  ): PromiseResponseType<this, Awaited<R>> {
     try {
-      const res = await callback();
-      if (this.safeResponse) {
-        if (res && typeof res === "object" && "data" in res && "total" in res) {
-          return { ...res, error: null };
-        }
-        return { data: res, error: null } as unknown as ResponseType<
-          BaseClient,
-          Awaited<R>
-        >;
-      }
-      return res as unknown as ResponseType<BaseClient, Awaited<R>>;
+      return this.toResponse(await callback());
     } catch (e) {
-      if (this.safeResponse) {
-        // TODO: Handle error in a way that it returns a consistent type
-        // This is a workaround to ensure that the error is always returned in a consistent format
-        return { data: null, error: e as Error } as unknown as ResponseType<
-          BaseClient,
-          Awaited<R>
-        >;
-      }
-      throw e;
+      return this.toErrorResponse(e);
     }
   }
+
+  /**
+   * Resolve a response to its data, throwing the error of a safe response.
+   *
+   * Lists and counted results keep `total` or `count` next to `data`.
+   *
+   * @param {PromiseLike<any>} response
+   * @returns {Promise<R>}
+   */
+  async unwrap<R = any>(response: PromiseLike<any>): Promise<R> {
+    const result = await response;
+    if (!this.safeResponse) return result;
+    if (!result.ok) throw result.error;
+    if ("total" in result || "count" in result) {
+      const { ok, error, ...rest } = result;
+      return rest;
+    }
+    return result.data;
+  }
+
+  /**
+   * Synchronous version of `withSafeResponse`, for methods building URLs.
+   *
+   * @param {() => R} callback
+   * @returns {ResponseType<this, R>}
+   */
+  withSafeResponseSync<R>(callback: () => R): ResponseType<this, R> {
+    try {
+      return this.toResponse(callback());
+    } catch (e) {
+      return this.toErrorResponse(e);
+    }
+  }
+
+  private toResponse(res: unknown): any {
+    if (!this.safeResponse) return res;
+    if (res && typeof res === "object" && "data" in res && "total" in res) {
+      return { ...res, ok: true, error: null };
+    }
+    return { ok: true, data: res, error: null };
+  }
+
+  private toErrorResponse(e: unknown): any {
+    if (!this.safeResponse) throw e;
+    return { ok: false, data: null, error: toNuvixException(e) };
+  }
 }
 
-export { BaseClient, NuvixException };
+export { BaseClient, NuvixException, NuvixAbortException };
 export { Query } from "./query";
 export type { Models, Payload, UploadProgress };
 export type { RealtimeResponseEvent };
+export type { Middleware, RequestContext, RequestOptions, RetryOptions };
 export type { QueryTypes, QueryTypesList } from "./query";
@@ -1,7 +1,23 @@
-import { PromiseResponseType } from "../type";
+import { PromiseResponseType, RequestOptions } from "../type";
 import type { BaseClient, Models } from "../base-client";
 import { Database } from "../services/database";
 import { Query } from "../query";
+import { ID } from "../id";
+import {
+  isNuvixError,
+  NuvixAbortException,
+  NuvixException,
+  toNuvixException,
+  type ClientErrorType,
+} from "../error";
+import {
+  canMatchDocumentsLocally,
+  getRealtimeAction,
+  LiveStream,
+  matchesDocumentQueries,
+  ParsedQuery,
+  sortDocuments,
+} from "./live";
 
 /* ===========================
   Type Utilities (core)
@@ -550,6 +566,127 @@ export class CollectionQueryBuilder<
     >(this.schema, String(this.collectionId), id, qs);
   }
 
+  /**
+   * Watches the query results in realtime.
+   *
+   * Emits a fresh `DocumentList` snapshot whenever a document of the
+   * collection is created, updated or deleted. Filters and ordering are
+   * re-applied locally; queries with `limit`/`offset` are re-run instead.
+   * When relations are populated, changes to related documents re-resolve
+   * the documents referencing them.
+   *
+   * @example
+   * ```ts
+   * for await (const { data } of db.schema("app").collection("posts").watch()) {
+   *   render(data);
+   * }
+   * ```
+   */
+  watch(): LiveStream<
+    Models.DocumentList<
+      // @ts-ignore
+      BuildResultType<CollectionsTypes[CollectionName], Selected, Populated>
+    >
+  > {
+    type Doc = BuildResultType<
+      CollectionsTypes[CollectionName],
+      Selected,
+      Populated
+    >;
+
+    const collectionId = String(this.collectionId);
+    const queries = this.buildQueryStrings();
+    const filters: ParsedQuery[] = this.descriptors.flatMap((d) =>
+      d.kind === "query" ? [JSON.parse(d.payload)] : [],
+    );
+    // select and populate queries shape a single document
+    const shape = queries.filter((q) => {
+      const { method } = JSON.parse(q);
+      return method === "select" || method === "populate";
+    });
+    const populates = this.descriptors.some(
+      (d) => d.kind === "populate" || d.kind === "populateAll",
+    );
+    const local = canMatchDocumentsLocally(filters);
+    const channels = [`collections.${collectionId}.documents`];
+    if (populates) channels.push("documents");
+
+    return new LiveStream((next, fail) => {
+      let list: Models.DocumentList<any> = { total: 0, data: [] };
+      let closed = false;
+      let queue = Promise.resolve();
+
+      const emit = () => {
+        if (!closed) next({ total: list.total, data: [...list.data] });
+      };
+
+      const fetchAll = async () => {
+        list = await this.db.client.unwrap<Models.DocumentList<any>>(
+          this.db.listDocuments<any>(this.schema, collectionId, queries),
+        );
+      };
+
+      const fetchOne = (id: string) =>
+        this.db.client.unwrap<Doc>(
+          this.db.getDocument<any>(this.schema, collectionId, id, shape),
+        );
+
+      const handle = async (action: string, doc: Models.Document) => {
+        const index = list.data.findIndex((d) => d.$id === doc.$id);
+
+        if (doc.$collection !== collectionId) {
+          // A related document changed: re-resolve the documents referencing it
+          const parents = list.data.filter((d) => references(d, doc.$id));
+          if (parents.length === 0) return;
+          for (const parent of parents) {
+            const i = list.data.indexOf(parent);
+            list.data[i] = await fetchOne(parent.$id);
+          }
+        } else if (!local) {
+          await fetchAll();
+        } else if (
+          action === "delete" ||
+          !matchesDocumentQueries(doc, filters)
+        ) {
+          if (index === -1) return;
+          list.data.splice(index, 1);
+          list.total--;
+        } else {
+          // Fetched again to match the selected and populated attributes
+          const resolved = shape.length ? await fetchOne(doc.$id) : doc;
+          if (index === -1) {
+            list.data.push(resolved);
+            list.total++;
+          } else {
+            list.data[index] = resolved;
+          }
+          sortDocuments(list.data, filters);
+        }
+        emit();
+      };
+
+      const unsubscribe = this.db.client.subscribe<Models.Document>(
+        channels,
+        (event) => {
+          const action = getRealtimeAction(event.events);
+          if (!action || !event.payload?.$id) return;
+          queue = queue
+            .then(() => handle(action, event.payload))
+            .catch((error) => fail(error));
+        },
+      );
+
+      queue = fetchAll()
+        .then(emit)
+        .catch((error) => fail(error));
+
+      return () => {
+        closed = true;
+        unsubscribe();
+      };
+    });
+  }
+
   async create<Document extends CollectionsTypes[CollectionName]>(
     documentId: string,
     data: CreateInput<Document>,
@@ -585,6 +722,267 @@ export class CollectionQueryBuilder<
       documentId,
     );
   }
+
+  /**
+   * Updates a document, or creates it when it does not exist.
+   */
+  async upsert<Document extends CollectionsTypes[CollectionName]>(
+    documentId: string,
+    data: CreateInput<Document> & UpdateInput<Document>,
+    permissions?: string[],
+  ): PromiseResponseType<T, Omit<Document, RelationKeys<Document>>> {
+    return this.db.client.withSafeResponse(async () => {
+      try {
+        return await this.db.client.unwrap<
+          Omit<Document, RelationKeys<Document>>
+        >(this.update<Document>(documentId, data, permissions));
+      } catch (e) {
+        if (!isNuvixError(e, "document_not_found")) throw e;
+      }
+      return await this.db.client.unwrap<
+        Omit<Document, RelationKeys<Document>>
+      >(this.create<Document>(documentId, data, permissions));
+    });
+  }
+
+  /* =========================
+    Bulk methods
+    ========================= */
+
+  /**
+   * Creates documents in parallel, reporting the result of each one.
+   *
+   * @example
+   * ```ts
+   * const { failed, results } = await posts.createMany(
+   *   rows.map((data) => ({ data })),
+   *   { concurrency: 20 },
+   * );
+   * ```
+   */
+  async createMany<Document extends CollectionsTypes[CollectionName]>(
+    documents: {
+      /** Defaults to a unique ID */
+      documentId?: string;
+      data: CreateInput<Document>;
+      permissions?: string[];
+    }[],
+    options?: BulkOptions,
+  ): PromiseResponseType<
+    T,
+    BulkResult<Omit<Document, RelationKeys<Document>>>
+  > {
+    const items = documents.map((d) => ({
+      ...d,
+      documentId: d.documentId ?? ID.unique(),
+    }));
+    return this.db.client.withSafeResponse(() =>
+      runBulk(
+        items,
+        (item) => item.documentId,
+        (item, requestOptions) =>
+          this.db.client.unwrap<Omit<Document, RelationKeys<Document>>>(
+            this.db.createDocument<Document>(
+              this.schema,
+              String(this.collectionId),
+              item.documentId,
+              item.data,
+              item.permissions,
+              requestOptions,
+            ),
+          ),
+        options,
+      ),
+    );
+  }
+
+  /**
+   * Applies the same update to every document matching the filters of the builder.
+   *
+   * The matching documents are listed first, so the update may change
+   * whether they match. Without filters, `force` is required to update
+   * every document of the collection.
+   */
+  async updateMany<Document extends CollectionsTypes[CollectionName]>(
+    data: UpdateInput<Document>,
+    permissions?: string[],
+    options?: BulkOptions & { force?: boolean },
+  ): PromiseResponseType<
+    T,
+    BulkResult<Omit<Document, RelationKeys<Document>>>
+  > {
+    return this.db.client.withSafeResponse(async () =>
+      runBulk(
+        await this._matchingIds("Update", "update_failed", options),
+        (id) => id,
+        (id, requestOptions) =>
+          this.db.client.unwrap<Omit<Document, RelationKeys<Document>>>(
+            this.db.updateDocument<Document>(
+              this.schema,
+              String(this.collectionId),
+              id,
+              data,
+              permissions,
+              requestOptions,
+            ),
+          ),
+        options,
+      ),
+    );
+  }
+
+  /**
+   * Deletes the given documents, or every document matching the filters of the builder.
+   *
+   * Without IDs nor filters, `force` is required to delete every document
+   * of the collection.
+   */
+  async deleteMany(
+    documentIds?: string[],
+    options?: BulkOptions & { force?: boolean },
+  ): PromiseResponseType<T, BulkResult<{}>> {
+    return this.db.client.withSafeResponse(async () =>
+      runBulk(
+        documentIds ??
+          (await this._matchingIds("Delete", "delete_failed", options)),
+        (id) => id,
+        (id, requestOptions) =>
+          this.db.client.unwrap<{}>(
+            this.db.deleteDocument(
+              this.schema,
+              String(this.collectionId),
+              id,
+              requestOptions,
+            ),
+          ),
+        options,
+      ),
+    );
+  }
+
+  /**
+   * Lists the IDs of all the documents matching the filters, ignoring limit and offset.
+   *
+   * @throws {NuvixException} When the builder has no filters and `force` is not set.
+   */
+  private async _matchingIds(
+    operation: "Update" | "Delete",
+    type: ClientErrorType,
+    { force, ...options }: BulkOptions & { force?: boolean } = {},
+  ): Promise<string[]> {
+    const queries = this.descriptors.flatMap((d) =>
+      d.kind === "query" &&
+      !["limit", "offset"].includes(JSON.parse(d.payload).method)
+        ? [d.payload]
+        : [],
+    );
+    const filtered = queries.some(
+      (q) => !NON_FILTER_METHODS.includes(JSON.parse(q).method),
+    );
+    if (!filtered && !force) {
+      throw new NuvixException(
+        `${operation} of every document requires filters or { force: true }`,
+        400,
+        type,
+      );
+    }
+
+    const ids: string[] = [];
+    const documents = this.db.paginateDocuments(
+      this.schema,
+      String(this.collectionId),
+      [...queries, Query.select(["$id"])],
+      { pageSize: 100, signal: options.signal },
+    );
+    for await (const document of documents) {
+      ids.push(document.$id);
+    }
+    if (options.signal?.aborted) {
+      throw new NuvixAbortException("Bulk operation was aborted", "aborted");
+    }
+    return ids;
+  }
+}
+
+/**
+ * Outcome of one document of a bulk operation.
+ */
+export type BulkItemResult<R> =
+  | { id: string; ok: true; data: R }
+  | { id: string; ok: false; error: NuvixException };
+
+/**
+ * Outcome of a bulk operation, in the order of its items.
+ */
+export type BulkResult<R> = {
+  results: BulkItemResult<R>[];
+  succeeded: number;
+  failed: number;
+};
+
+export type BulkOptions = {
+  /** Number of requests running at once (default 10, at least 1) */
+  concurrency?: number;
+  /** Stops the operation, the pending items fail with a `NuvixAbortException` */
+  signal?: AbortSignal;
+};
+
+/** Query methods that do not narrow the matching documents */
+const NON_FILTER_METHODS = [
+  "orderAsc",
+  "orderDesc",
+  "cursorAfter",
+  "cursorBefore",
+];
+
+/** Run a task for every item with bounded concurrency, collecting each outcome */
+async function runBulk<I, R>(
+  items: I[],
+  getId: (item: I) => string,
+  task: (item: I, options: RequestOptions) => Promise<R>,
+  { concurrency = 10, signal }: BulkOptions = {},
+): Promise<BulkResult<R>> {
+  const results: BulkItemResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      const id = getId(items[index]);
+      try {
+        if (signal?.aborted) {
+          throw new NuvixAbortException(
+            "Bulk operation was aborted",
+            "aborted",
+          );
+        }
+        const data = await task(items[index], { signal });
+        results[index] = { id, ok: true, data };
+      } catch (e) {
+        results[index] = { id, ok: false, error: toNuvixException(e) };
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from(
+      { length: Math.min(Math.max(1, concurrency), items.length) },
+      worker,
+    ),
+  );
+
+  const succeeded = results.filter((r) => r.ok).length;
+  const failed = results.filter((r) => !r.ok).length;
+  return { results, succeeded, failed };
+}
+
+/** Whether a document references the given document id in any nested relation */
+function references(doc: unknown, id: string): boolean {
+  if (Array.isArray(doc)) return doc.some((d) => references(d, id));
+  if (!doc || typeof doc !== "object") return false;
+  return Object.entries(doc).some(([key, value]) =>
+    key === "$id" ? false : (value as any)?.$id === id || references(value, id),
+  );
 }
 
 /* ===========================
@@ -1,3 +1,5 @@
 export { TableQueryBuilder } from "./table";
+export type { CountMethod } from "./table";
 export { CollectionQueryBuilder } from "./collection";
+export type { BulkItemResult, BulkOptions, BulkResult } from "./collection";
 export { SchemaQueryBuilder } from "./schema";
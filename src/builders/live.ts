@@ -0,0 +1,579 @@
+import type {
+  NuvqlCondition,
+  NuvqlFilterCondition,
+  NuvqlLogicalCondition,
+} from "./table";
+
+/**
+ * A change delivered to a live query subscriber.
+ *
+ * The first change is always a `snapshot` of the current result set, every
+ * following change describes a single row entering, changing in or leaving it.
+ */
+export type LiveQueryChange<TRow> =
+  | { type: "snapshot"; data: TRow[] }
+  | { type: "insert"; row: TRow }
+  | { type: "update"; row: TRow; old: TRow }
+  | { type: "delete"; row: TRow }
+  | { type: "error"; error: Error };
+
+export type RealtimeAction = "create" | "update" | "delete";
+
+/**
+ * Resolves the row action from the event names of a realtime message,
+ * e.g. `schemas.public.tables.users.rows.42.update` -> `update`.
+ */
+export function getRealtimeAction(
+  events: string[],
+): RealtimeAction | undefined {
+  for (const event of events) {
+    const action = event.slice(event.lastIndexOf(".") + 1);
+    if (action === "create" || action === "update" || action === "delete") {
+      return action;
+    }
+  }
+  return undefined;
+}
+
+// Operators that can be evaluated against a single row on the client
+const LOCAL_OPERATORS = new Set<string>([
+  "eq",
+  "neq",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "eqAny",
+  "eqAll",
+  "neqAny",
+  "neqAll",
+  "gtAny",
+  "gtAll",
+  "gteAny",
+  "gteAll",
+  "ltAny",
+  "ltAll",
+  "lteAny",
+  "lteAll",
+  "like",
+  "ilike",
+  "match",
+  "imatch",
+  "likeAny",
+  "likeAll",
+  "ilikeAny",
+  "ilikeAll",
+  "matchAny",
+  "matchAll",
+  "imatchAny",
+  "imatchAll",
+  "in",
+  "notin",
+  "ov",
+  "cs",
+  "cd",
+  "between",
+  "nbetween",
+  "is",
+  "isnot",
+  "null",
+  "notnull",
+  "isdistinct",
+]);
+
+function isLogical(
+  condition: NuvqlCondition,
+): condition is NuvqlLogicalCondition {
+  return ["and", "or", "not"].includes(condition.operator);
+}
+
+// Regular expressions of the `match` conditions, compiled once
+const patterns = new WeakMap<NuvqlFilterCondition, RegExp[]>();
+
+function isMatch(condition: NuvqlFilterCondition): boolean {
+  return /^i?match(Any|All)?$/.test(condition.operator);
+}
+
+/**
+ * Compiles the patterns of a `match` condition, throwing for a pattern that
+ * is valid on the server but not in JavaScript.
+ */
+function compilePatterns(condition: NuvqlFilterCondition): RegExp[] {
+  let compiled = patterns.get(condition);
+  if (!compiled) {
+    const flags = condition.operator.startsWith("imatch") ? "i" : "";
+    compiled = toList(condition.value).map((v) => new RegExp(v, flags));
+    patterns.set(condition, compiled);
+  }
+  return compiled;
+}
+
+/**
+ * Whether all conditions can be evaluated locally by `matchesConditions`.
+ */
+export function canMatchLocally(conditions: readonly NuvqlCondition[]) {
+  return conditions.every((condition): boolean => {
+    if (isLogical(condition)) {
+      return canMatchLocally(condition.conditions);
+    }
+    if (isMatch(condition)) {
+      try {
+        compilePatterns(condition);
+      } catch {
+        return false;
+      }
+    }
+    return (
+      !condition.isColumnReference &&
+      !condition.column.includes(".") &&
+      LOCAL_OPERATORS.has(condition.operator)
+    );
+  });
+}
+
+/**
+ * Reads a column or a JSON path (`data->address->>city`) from a row.
+ */
+export function readPath(row: Record<string, any>, path: string): any {
+  const [column, ...keys] = path.split(/->>?/);
+  let value = row?.[column];
+  for (const key of keys) {
+    if (value === null || value === undefined) return undefined;
+    value = value[key];
+  }
+  return path.includes("->>") && value !== null && value !== undefined
+    ? typeof value === "object"
+      ? JSON.stringify(value)
+      : String(value)
+    : value;
+}
+
+function normalize(value: any): any {
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+function equals(a: any, b: any): boolean {
+  a = normalize(a);
+  b = normalize(b);
+  if (a === b) return true;
+  if (a === null || a === undefined || b === null || b === undefined) {
+    return false;
+  }
+  if (typeof a === "object" || typeof b === "object") {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  return String(a) === String(b);
+}
+
+function compare(a: any, b: any): number | undefined {
+  a = normalize(a);
+  b = normalize(b);
+  if (a === null || a === undefined || b === null || b === undefined) {
+    return undefined;
+  }
+  if (typeof a === "number" || typeof b === "number") {
+    const diff = Number(a) - Number(b);
+    return Number.isNaN(diff) ? undefined : diff;
+  }
+  return String(a) < String(b) ? -1 : String(a) > String(b) ? 1 : 0;
+}
+
+function patternToRegExp(pattern: string, caseInsensitive: boolean): RegExp {
+  const source = String(pattern)
+    .split("")
+    .map((char) => {
+      if (char === "%" || char === "*") return ".*";
+      if (char === "_") return ".";
+      return char.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${source}$`, caseInsensitive ? "is" : "s");
+}
+
+function toList(value: any): any[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+function matchesFilter(
+  row: Record<string, any>,
+  condition: NuvqlFilterCondition,
+): boolean {
+  const { operator, value } = condition;
+  const actual = readPath(row, condition.column);
+
+  if (isMatch(condition)) {
+    if (typeof actual !== "string") return false;
+    const tests = compilePatterns(condition).map((re) => re.test(actual));
+    return operator.endsWith("All")
+      ? tests.every(Boolean)
+      : tests.some(Boolean);
+  }
+
+  const quantified = operator.match(
+    /^(eq|neq|gt|gte|lt|lte|like|ilike)(Any|All)$/,
+  );
+  if (quantified) {
+    const [, base, quantifier] = quantified;
+    const test = (v: any) =>
+      matchesFilter(row, {
+        column: condition.column,
+        operator: base as NuvqlFilterCondition["operator"],
+        value: v,
+      });
+    return quantifier === "Any"
+      ? toList(value).some(test)
+      : toList(value).every(test);
+  }
+
+  switch (operator) {
+    case "eq":
+      return equals(actual, value);
+    case "neq":
+      return actual !== null && actual !== undefined && !equals(actual, value);
+    case "gt":
+      return (compare(actual, value) ?? 0) > 0;
+    case "gte":
+      return (compare(actual, value) ?? -1) >= 0;
+    case "lt":
+      return (compare(actual, value) ?? 0) < 0;
+    case "lte":
+      return (compare(actual, value) ?? 1) <= 0;
+    case "like":
+    case "ilike":
+      return (
+        typeof actual === "string" &&
+        patternToRegExp(value, operator === "ilike").test(actual)
+      );
+    case "in":
+      return toList(value).some((v) => equals(actual, v));
+    case "notin":
+      return (
+        actual !== null &&
+        actual !== undefined &&
+        !toList(value).some((v) => equals(actual, v))
+      );
+    case "ov":
+      return (
+        Array.isArray(actual) &&
+        actual.some((a) => toList(value).some((v) => equals(a, v)))
+      );
+    case "cs":
+      return (
+        Array.isArray(actual) &&
+        toList(value).every((v) => actual.some((a) => equals(a, v)))
+      );
+    case "cd":
+      return (
+        Array.isArray(actual) &&
+        actual.every((a) => toList(value).some((v) => equals(a, v)))
+      );
+    case "between":
+    case "nbetween": {
+      const [min, max] = Array.isArray(value) ? value : [value, value];
+      const lower = compare(actual, min);
+      const upper = compare(actual, max);
+      if (lower === undefined || upper === undefined) return false;
+      const inside = lower >= 0 && upper <= 0;
+      return operator === "between" ? inside : !inside;
+    }
+    case "is":
+    case "isnot": {
+      const is =
+        value === null || value === "null"
+          ? actual === null || actual === undefined
+          : value === "not_null"
+            ? actual !== null && actual !== undefined
+            : actual === value;
+      return operator === "is" ? is : !is;
+    }
+    case "null":
+      return actual === null || actual === undefined;
+    case "notnull":
+      return actual !== null && actual !== undefined;
+    case "isdistinct":
+      return !equals(actual ?? null, value ?? null);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Evaluates NuvQL conditions against a row, combining top-level conditions
+ * with `and`. Only call this when `canMatchLocally` holds for the conditions.
+ */
+export function matchesConditions(
+  row: Record<string, any>,
+  conditions: readonly NuvqlCondition[],
+): boolean {
+  return conditions.every((condition): boolean => {
+    if (!isLogical(condition)) {
+      return matchesFilter(row, condition);
+    }
+    switch (condition.operator) {
+      case "or":
+        return condition.conditions.some((c) => matchesConditions(row, [c]));
+      case "not":
+        return !matchesConditions(row, condition.conditions);
+      default:
+        return matchesConditions(row, condition.conditions);
+    }
+  });
+}
+
+// alias:column, column, or column->json->>path; casts and aggregates are resolved server-side
+const PROJECTABLE_SELECTION =
+  /^(?:[A-Za-z_][\w]*:)?[A-Za-z_][\w]*(?:->>?\w+)*$/;
+
+/**
+ * Whether a selection can be applied to a raw row by `projectRow`.
+ */
+export function canProjectLocally(selectedColumns: readonly string[]) {
+  return selectedColumns.every(
+    (column) => column === "*" || PROJECTABLE_SELECTION.test(column),
+  );
+}
+
+/**
+ * Applies a selection to a raw row, naming JSON paths the way the
+ * `JsonPathToFieldName` type does (`data->address->>city` -> `data_address_city`).
+ * With `*`, the other selections are added to all the columns of the row.
+ */
+export function projectRow(
+  row: Record<string, any>,
+  selectedColumns: readonly string[],
+): Record<string, any> {
+  if (selectedColumns.length === 0) {
+    return { ...row };
+  }
+
+  const result: Record<string, any> = selectedColumns.includes("*")
+    ? { ...row }
+    : {};
+  for (const selection of selectedColumns) {
+    if (selection === "*") continue;
+    const separator = selection.indexOf(":");
+    const path = separator === -1 ? selection : selection.slice(separator + 1);
+    const alias =
+      separator === -1
+        ? path.replace(/->>?/g, "_")
+        : selection.slice(0, separator);
+    result[alias] = readPath(row, path);
+  }
+  return result;
+}
+
+/**
+ * A query as serialized by the `Query` helper.
+ */
+export type ParsedQuery = {
+  method: string;
+  attribute?: string | string[];
+  values?: any[];
+};
+
+// Document queries that can be re-applied on the client
+const LOCAL_DOCUMENT_QUERIES = new Set<string>([
+  "equal",
+  "notEqual",
+  "contains",
+  "startsWith",
+  "endsWith",
+  "orderAsc",
+  "orderDesc",
+]);
+
+/**
+ * Whether all queries can be re-applied locally by `matchesDocumentQueries`
+ * and `sortDocuments`.
+ */
+export function canMatchDocumentsLocally(queries: readonly ParsedQuery[]) {
+  return queries.every((query) => LOCAL_DOCUMENT_QUERIES.has(query.method));
+}
+
+/**
+ * Evaluates the filter queries of a collection query against a document.
+ */
+export function matchesDocumentQueries(
+  doc: Record<string, any>,
+  queries: readonly ParsedQuery[],
+): boolean {
+  return queries.every((query) => {
+    const actual = doc[String(query.attribute)];
+    const values = query.values ?? [];
+    switch (query.method) {
+      case "equal":
+        return values.some((v) => equals(actual, v));
+      case "notEqual":
+        return !values.some((v) => equals(actual, v));
+      case "contains":
+        return Array.isArray(actual)
+          ? values.some((v) => actual.some((a) => equals(a, v)))
+          : typeof actual === "string" &&
+              values.some((v) => actual.includes(String(v)));
+      case "startsWith":
+        return typeof actual === "string" && actual.startsWith(values[0]);
+      case "endsWith":
+        return typeof actual === "string" && actual.endsWith(values[0]);
+      default:
+        return true;
+    }
+  });
+}
+
+/**
+ * Sorts documents by the `orderAsc` / `orderDesc` queries, in place.
+ */
+export function sortDocuments<T extends Record<string, any>>(
+  docs: T[],
+  queries: readonly ParsedQuery[],
+): T[] {
+  const orders = queries.filter(
+    (q) => q.method === "orderAsc" || q.method === "orderDesc",
+  );
+  if (orders.length === 0) return docs;
+
+  return docs.sort((a, b) => {
+    for (const order of orders) {
+      const attribute = String(order.attribute);
+      const result = compare(a[attribute], b[attribute]) ?? 0;
+      if (result !== 0) {
+        return order.method === "orderAsc" ? result : -result;
+      }
+    }
+    return 0;
+  });
+}
+
+/**
+ * A stream of live values that can be consumed as an async iterable or
+ * through `subscribe()`.
+ *
+ * The underlying realtime subscription is opened lazily for the first
+ * consumer and released when the last consumer unsubscribes, breaks out of
+ * `for await`, or with `close()`. Slow async iterators skip
+ * intermediate values and always resume with the latest one.
+ */
+export class LiveStream<T> implements AsyncIterable<T> {
+  private listeners = new Set<{
+    next: (value: T) => void;
+    error?: (error: Error) => void;
+    complete?: () => void;
+  }>();
+  private latest?: { value: T };
+  private stop?: () => void;
+  private closed = false;
+
+  constructor(
+    private readonly start: (
+      next: (value: T) => void,
+      error: (error: Error) => void,
+    ) => () => void,
+  ) {}
+
+  /**
+   * Registers a listener for every value of the stream.
+   *
+   * @returns A function that removes the listener.
+   */
+  subscribe(
+    next: (value: T) => void,
+    error?: (error: Error) => void,
+    complete?: () => void,
+  ): () => void {
+    const listener = { next, error, complete };
+    this.listeners.add(listener);
+
+    if (this.closed) {
+      this.listeners.delete(listener);
+      complete?.();
+    } else if (!this.stop) {
+      this.stop = this.start(
+        (value) => {
+          this.latest = { value };
+          this.listeners.forEach((l) => l.next(value));
+        },
+        (e) => this.listeners.forEach((l) => l.error?.(e)),
+      );
+    } else if (this.latest) {
+      next(this.latest.value);
+    }
+
+    return () => {
+      if (this.listeners.delete(listener) && this.listeners.size === 0) {
+        this.release();
+      }
+    };
+  }
+
+  /**
+   * Stops the stream and completes every consumer.
+   */
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.stop?.();
+    this.listeners.forEach((l) => l.complete?.());
+    this.listeners.clear();
+  }
+
+  /**
+   * Releases the realtime subscription once no consumer is left. The next
+   * consumer opens it again.
+   */
+  private release(): void {
+    const stop = this.stop;
+    this.stop = undefined;
+    this.latest = undefined;
+    stop?.();
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<T> {
+    let buffered: { value: T } | undefined;
+    let failure: Error | undefined;
+    let done = false;
+    let wake: (() => void) | undefined;
+
+    const unsubscribe = this.subscribe(
+      (value) => {
+        buffered = { value };
+        wake?.();
+      },
+      (error) => {
+        failure = error;
+        wake?.();
+      },
+      () => {
+        done = true;
+        wake?.();
+      },
+    );
+
+    return {
+      next: async (): Promise<IteratorResult<T>> => {
+        while (!buffered && !failure && !done) {
+          await new Promise<void>((resolve) => (wake = resolve));
+          wake = undefined;
+        }
+        if (failure) {
+          const error = failure;
+          failure = undefined;
+          buffered = undefined;
+          done = true;
+          unsubscribe();
+          throw error;
+        }
+        if (buffered) {
+          const { value } = buffered;
+          buffered = undefined;
+          return { value, done: false };
+        }
+        return { value: undefined, done: true };
+      },
+      return: async (): Promise<IteratorResult<T>> => {
+        done = true;
+        unsubscribe();
+        return { value: undefined, done: true };
+      },
+    };
+  }
+}
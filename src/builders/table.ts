@@ -1,8 +1,16 @@
 import type { BaseClient } from "../base-client";
 import { DatabaseTypes } from "./types";
-import { NuvixException } from "../error";
+import { NuvixException, type ClientErrorType } from "../error";
 import { Cast, Column, ColumnBuilder, ValidateCast } from "./utils";
-import { ResponseType } from "../type";
+import { RealtimeResponseEvent, RequestOptions, ResponseType } from "../type";
+import {
+  canMatchLocally,
+  canProjectLocally,
+  getRealtimeAction,
+  LiveQueryChange,
+  matchesConditions,
+  projectRow,
+} from "./live";
 
 export type NuvqlOperator =
   // Comparison operators
@@ -432,6 +440,13 @@ type TableOrView =
   | DatabaseTypes.GenericView
   | DatabaseTypes.GenericUpdatableView;
 
+/**
+ * How the total number of rows is counted: `exact` runs a full count,
+ * `planned` uses the planner statistics and `estimated` uses the exact count
+ * for small tables and the planner statistics beyond.
+ */
+export type CountMethod = "exact" | "planned" | "estimated";
+
 export class TableQueryBuilder<
   TClient extends BaseClient,
   TTable extends TableOrView,
@@ -447,8 +462,10 @@ export class TableQueryBuilder<
     }
   > = {},
   TResultFinal = TResult[],
-> implements PromiseLike<ResponseType<TClient, TResultFinal>>
+> implements Promise<ResponseType<TClient, TResultFinal>>
 {
+  readonly [Symbol.toStringTag] = "TableQueryBuilder";
+
   // --- IMMUTABLE STATE ---
   private readonly _client: TClient;
   private readonly _config: {
@@ -470,6 +487,9 @@ export class TableQueryBuilder<
   } = {};
   private _single?: boolean = false;
   private _maybeSingle?: boolean = false;
+  private _options: RequestOptions = {};
+  private _count?: CountMethod;
+  private _mutation?: Mutation;
 
   constructor(
     client: TClient,
@@ -496,7 +516,10 @@ export class TableQueryBuilder<
   }
 
   // --- INTERNAL CLONE METHOD FOR IMMUTABILITY ---
-  private _clone<TNewResult = TResult>(newState: {
+  private _clone<
+    TNewResult = TResult,
+    TNewResultFinal = TNewResult[],
+  >(newState: {
     selectedColumns?: readonly string[];
     conditions?: readonly NuvqlCondition[];
     joins?: readonly { name: string; query: string }[];
@@ -507,14 +530,26 @@ export class TableQueryBuilder<
     TSchema,
     TNewResult,
     TParentTable,
-    TJoinedTables
+    TJoinedTables,
+    TNewResultFinal
   > {
-    return new TableQueryBuilder(this._client, this._config, {
+    const builder = new TableQueryBuilder<
+      TClient,
+      TTable,
+      TSchema,
+      TNewResult,
+      TParentTable,
+      TJoinedTables,
+      TNewResultFinal
+    >(this._client, this._config, {
       selectedColumns: newState.selectedColumns ?? this._selectedColumns,
       conditions: newState.conditions ?? this._conditions,
       joins: newState.joins ?? this._joins,
       joinedTables: newState.joinedTables ?? this._joinedTables,
     });
+    builder._options = { ...this._options };
+    builder._mutation = this._mutation;
+    return builder;
   }
 
   select(): TableQueryBuilder<
@@ -547,6 +582,16 @@ export class TableQueryBuilder<
     TJoinedTables
   >;
   select(...columns: any[]): any {
+    if (this._mutation) {
+      // Return the affected rows of an insert, update or delete
+      const builder = this._clone({ selectedColumns: [] });
+      builder._mutation = { ...this._mutation, returning: true };
+      return columns.length ? builder._select(columns) : builder;
+    }
+    return this._select(columns);
+  }
+
+  private _select(columns: any[]): any {
     if (columns.length === 0) {
       // Reset selection to all columns of the current table
       return this._clone({ selectedColumns: [] });
@@ -1779,6 +1824,28 @@ export class TableQueryBuilder<
     return this;
   }
 
+  /**
+   * Sets a signal that cancels the request.
+   *
+   * @param signal - The signal aborting the request, e.g. from an `AbortController`.
+   * @returns The current instance of the builder for method chaining.
+   */
+  abortSignal(signal: AbortSignal) {
+    this._options.signal = signal;
+    return this;
+  }
+
+  /**
+   * Sets the time limit of the request, overriding the client default.
+   *
+   * @param timeoutMs - The time limit in milliseconds, `0` to disable it.
+   * @returns The current instance of the builder for method chaining.
+   */
+  timeout(timeoutMs: number) {
+    this._options.timeoutMs = timeoutMs;
+    return this;
+  }
+
   /**
    * Adds grouping instructions to the table query.
    *
@@ -1835,6 +1902,90 @@ export class TableQueryBuilder<
     return this;
   }
 
+  /**
+   * Requests the total number of rows matching the filters, ignoring the limit and offset.
+   *
+   * @param method - How the rows are counted (default `exact`).
+   * @returns A new builder, resolving to `{ data, count }`.
+   */
+  count(
+    method: CountMethod = "exact",
+  ): TableQueryBuilder<
+    TClient,
+    TTable,
+    TSchema,
+    TResult,
+    TParentTable,
+    TJoinedTables,
+    { data: TResultFinal; count: number | null }
+  > {
+    const builder = this._clone<
+      TResult,
+      { data: TResultFinal; count: number | null }
+    >({});
+    builder._extra = { ...this._extra };
+    builder._single = this._single;
+    builder._maybeSingle = this._maybeSingle;
+    builder._count = method;
+    return builder;
+  }
+
+  /**
+   * Limits the query to a page of rows, starting after a value of an ordered column.
+   *
+   * Keyset pagination stays fast on large tables, unlike offsets. The column
+   * becomes the first order of every page, ascending unless already ordered,
+   * and should be unique, e.g. a primary key. The offset is ignored.
+   *
+   * @param options - `pageSize` rows per page, the `column` to page by, and its value in the last row of the previous page, omitted for the first page.
+   * @returns A new builder for the page.
+   *
+   * @example
+   * ```ts
+   * const page = await db
+   *   .from("orders")
+   *   .select("id", "total")
+   *   .paginate({ pageSize: 50, column: "id", after: lastId });
+   * ```
+   */
+  paginate<K extends AllAvailableColumns<TTable, never>>({
+    pageSize,
+    column,
+    after,
+  }: {
+    pageSize: number;
+    column: K;
+    after?: ResolveColumnType<TTable, TJoinedTables, K & string>;
+  }): TableQueryBuilder<
+    TClient,
+    TTable,
+    TSchema,
+    TResult,
+    TParentTable,
+    TJoinedTables,
+    TResultFinal
+  > {
+    const orders = keysetOrders(this._extra.orders ?? [], column as string);
+    let builder = this._clone<TResult, TResultFinal>({});
+
+    if (after !== undefined) {
+      builder = this.addCondition({
+        column: column as string,
+        operator: orders[0].split(".")[1] === "desc" ? "lt" : "gt",
+        value: after,
+      });
+    }
+
+    builder._extra = {
+      ...this._extra,
+      orders,
+      offset: undefined,
+      limit: pageSize,
+    };
+    builder._count = this._count;
+    return builder;
+  }
+
   // ============ UTILITY METHODS ============
 
   protected isColumnReference(value: any): boolean {
@@ -1864,48 +2015,82 @@ export class TableQueryBuilder<
   // ============ QUERY EXECUTION ============
 
   protected async execute() {
-    return this._client.withSafeResponse(async () => {
-      if (this._single && this._maybeSingle) {
-        throw new Error("Cannot use both single() and maybeSingle() together.");
-      }
-
-      // Apply limit(1) automatically when using single or maybeSingle
-      if ((this._single || this._maybeSingle) && !this._extra.limit) {
-        this._extra.limit = 1;
-      }
-
-      const query = new URLSearchParams(this.toString());
-      const url = new URL(
-        `${this._client.config.endpoint}/schemas/${this._config.schema}/tables/${this._config.tableName}`,
+    if (this._mutation) {
+      return this._client.withSafeResponse(() =>
+        this._executeMutation(this._mutation!),
       );
-      url.search = query.toString();
+    }
 
-      try {
-        const response = await this._client.call("GET", url);
+    const response = await this._client.withSafeResponse(() => this._read());
+    // Counted results keep `count` next to `data`, as lists keep `total`
+    if (this._count && this._client.safeResponse && response.ok) {
+      return { ...response.data, ok: true, error: null };
+    }
+    return response;
+  }
 
-        if (this._single) {
-          if (!response || response.length === 0) {
-            throw new Error("No result found");
-          }
-          return response[0];
-        }
+  private async _read(): Promise<any> {
+    if (this._single && this._maybeSingle) {
+      throw new Error("Cannot use both single() and maybeSingle() together.");
+    }
 
-        if (this._maybeSingle) {
-          return response?.[0] ?? null;
-        }
+    // Apply limit(1) automatically when using single or maybeSingle
+    if ((this._single || this._maybeSingle) && !this._extra.limit) {
+      this._extra.limit = 1;
+    }
 
-        return response;
-      } catch (error) {
-        if (error instanceof NuvixException) {
-          throw error;
-        }
+    let count: number | null = null;
+    const response = this._count
+      ? await this._fetchRows(
+          { prefer: `count=${this._count}` },
+          {
+            ...this._options,
+            onResponse: (res) => {
+              count = parseCount(res.headers.get("content-range"));
+            },
+          },
+        )
+      : await this._fetchRows();
+
+    let data = response;
+    if (this._single) {
+      if (!response || response.length === 0) {
         throw new NuvixException(
-          `Query execution failed: ${error instanceof Error ? error.message : String(error)}`,
+          "Query execution failed: No result found",
           400,
-          `QUERY_EXECUTION_ERROR`,
+          "query_no_rows",
         );
       }
-    });
+      data = response[0];
+    } else if (this._maybeSingle) {
+      data = response?.[0] ?? null;
+    }
+
+    return this._count ? { data, count } : data;
+  }
+
+  private async _fetchRows(
+    headers: { [header: string]: string } = {},
+    options: RequestOptions = this._options,
+  ): Promise<any> {
+    const query = new URLSearchParams(this.toString());
+    const url = new URL(
+      `${this._client.config.endpoint}/schemas/${this._config.schema}/tables/${this._config.tableName}`,
+    );
+    url.search = query.toString();
+
+    try {
+      return await this._client.call("GET", url, headers, {}, "json", options);
+    } catch (error) {
+      if (error instanceof NuvixException) {
+        throw error;
+      }
+      throw new NuvixException(
+        `Query execution failed: ${error instanceof Error ? error.message : String(error)}`,
+        400,
+        "query_failed",
+      );
+    }
   }
 
   single(): TableQueryBuilder<
@@ -1947,10 +2132,269 @@ export class TableQueryBuilder<
       | ((reason: any) => TResult2 | PromiseLike<TResult2>)
       | null
       | undefined,
-  ): PromiseLike<TResult1 | TResult2> {
+  ): Promise<TResult1 | TResult2> {
     return this.execute().then(onfulfilled as any, onrejected);
   }
 
+  catch<TResult1 = never>(
+    onrejected?:
+      | ((reason: any) => TResult1 | PromiseLike<TResult1>)
+      | null
+      | undefined,
+  ): Promise<ResponseType<TClient, TResultFinal> | TResult1> {
+    return this.then(undefined, onrejected);
+  }
+
+  finally(
+    onfinally?: (() => void) | null | undefined,
+  ): Promise<ResponseType<TClient, TResultFinal>> {
+    return this.then().finally(onfinally);
+  }
+
+  /**
+   * Streams all the rows of the query, page by page.
+   *
+   * With a `column`, pages are fetched with keyset pagination over that
+   * column (see `paginate`), otherwise with offsets. Aborting the signal set
+   * with `abortSignal` stops the iteration.
+   *
+   * @param options - `pageSize` rows per page (default 1000), and the unique `column` to page by.
+   * @returns An async iterator over the pages of rows.
+   *
+   * @example
+   * ```ts
+   * for await (const rows of db.from("events").select().pages({ column: "id" })) {
+   *   await exportRows(rows);
+   * }
+   * ```
+   */
+  async *pages<K extends AllAvailableColumns<TTable, never>>({
+    pageSize = 1000,
+    column,
+  }: { pageSize?: number; column?: K } = {}): AsyncGenerator<
+    TResult[],
+    void,
+    undefined
+  > {
+    const { signal } = this._options;
+    const start = this._extra.offset ?? 0;
+    let last: any = undefined;
+
+    for (let index = 0; !signal?.aborted; index++) {
+      const builder = column
+        ? this.paginate<K>({
+            pageSize,
+            column,
+            after: last === undefined ? undefined : last[column],
+          })
+        : this._clone<TResult, TResultFinal>({});
+      builder._count = undefined;
+      if (!column) {
+        builder._extra = {
+          ...this._extra,
+          limit: pageSize,
+          offset: start + index * pageSize,
+        };
+      }
+
+      let rows: TResult[];
+      try {
+        rows = await this._client.unwrap(builder.execute());
+      } catch (e) {
+        if (signal?.aborted) return;
+        throw e;
+      }
+
+      if (rows.length) yield rows;
+      if (rows.length < pageSize) return;
+
+      last = rows[rows.length - 1];
+      if (column && !(column in last)) {
+        throw new NuvixException(
+          `Column "${String(column)}" is missing from the rows, add it to the selection to page by it`,
+          400,
+          "query_failed",
+        );
+      }
+    }
+  }
+
+  // ============ LIVE QUERIES ============
+
+  /**
+   * Subscribes to the live result set of the query.
+   *
+   * The callback first receives a `snapshot` of the current rows, followed by
+   * `insert`, `update` and `delete` changes for rows matching the builder's
+   * filters, shaped by its selection. When the query cannot be evaluated on
+   * the client (joins, limits, casts, column references, ...), the changes are
+   * computed by re-running the query on every realtime event.
+   *
+   * If the initial query fails, an `error` change is emitted and the query
+   * runs again on the next realtime event.
+   *
+   * @param callback - Called with the snapshot and every subsequent change.
+   * @param options - `key` is the column identifying a row (default `id`).
+   * @returns A function that stops the subscription.
+   *
+   * @example
+   * ```ts
+   * const unsubscribe = db
+   *   .from("orders")
+   *   .select("id", "status")
+   *   .eq("status", "pending")
+   *   .subscribe((change) => {
+   *     if (change.type === "snapshot") render(change.data);
+   *   });
+   * ```
+   */
+  subscribe(
+    callback: (change: LiveQueryChange<TResult>) => void,
+    options: { key?: string } = {},
+  ): () => void {
+    const key = options.key ?? "id";
+    const channel = `schemas.${this._config.schema}.tables.${this._config.tableName}.rows`;
+    const hasKey =
+      this._selectedColumns.length === 0 ||
+      this._selectedColumns.some((c) => c === "*" || c === key);
+    const local =
+      hasKey &&
+      this._joins.length === 0 &&
+      this._extra.limit === undefined &&
+      !this._extra.offset &&
+      !this._extra.groupBy?.length &&
+      canMatchLocally(this._conditions) &&
+      canProjectLocally(this._selectedColumns);
+
+    const rows = new Map<string, TResult>();
+    const identify = (row: any) =>
+      hasKey ? String(row?.[key]) : JSON.stringify(row);
+    let closed = false;
+    let ready = false;
+    let loading = false;
+    // Events received before the snapshot, dropped for a refetch past the limit
+    let pending: RealtimeResponseEvent<any>[] = [];
+    let missed = false;
+    let refetching: Promise<void> | undefined;
+    let stale = false;
+
+    const emit = (change: LiveQueryChange<TResult>) => {
+      if (!closed) callback(change);
+    };
+
+    const apply = (event: RealtimeResponseEvent<any>) => {
+      const action = getRealtimeAction(event.events);
+      const raw = event.payload;
+      if (!action || !raw || typeof raw !== "object") return;
+
+      const id = String(raw[key]);
+      const old = rows.get(id);
+      if (action !== "delete" && matchesConditions(raw, this._conditions)) {
+        const row = projectRow(raw, this._selectedColumns) as TResult;
+        rows.set(id, row);
+        if (old === undefined) {
+          emit({ type: "insert", row });
+        } else if (JSON.stringify(old) !== JSON.stringify(row)) {
+          emit({ type: "update", row, old });
+        }
+      } else if (old !== undefined) {
+        rows.delete(id);
+        emit({ type: "delete", row: old });
+      }
+    };
+
+    const refetch = async () => {
+      const next = new Map<string, TResult>();
+      for (const row of (await this._fetchRows()) ?? []) {
+        next.set(identify(row), row);
+      }
+      if (closed) return;
+
+      rows.forEach((old, id) => {
+        if (!next.has(id)) emit({ type: "delete", row: old });
+      });
+      next.forEach((row, id) => {
+        const old = rows.get(id);
+        if (old === undefined) {
+          emit({ type: "insert", row });
+        } else if (JSON.stringify(old) !== JSON.stringify(row)) {
+          emit({ type: "update", row, old });
+        }
+      });
+
+      rows.clear();
+      next.forEach((row, id) => rows.set(id, row));
+    };
+
+    // Coalesce bursts of events into a single re-run of the query
+    const scheduleRefetch = () => {
+      if (refetching) {
+        stale = true;
+        return;
+      }
+      refetching = refetch()
+        .catch((error) => emit({ type: "error", error }))
+        .finally(() => {
+          refetching = undefined;
+          if (stale && !closed) {
+            stale = false;
+            scheduleRefetch();
+          }
+        });
+    };
+
+    // Runs the initial query, again on the next event after a failure
+    const load = () => {
+      loading = true;
+      this._fetchRows()
+        .then((data: TResult[] | null) => {
+          if (closed) return;
+          for (const row of data ?? []) {
+            rows.set(identify(row), row);
+          }
+          ready = true;
+          emit({ type: "snapshot", data: Array.from(rows.values()) });
+
+          if (missed || (pending.length && !local)) {
+            scheduleRefetch();
+          } else {
+            pending.forEach(apply);
+          }
+        })
+        .catch((error) => emit({ type: "error", error }))
+        .finally(() => {
+          loading = false;
+          pending = [];
+          missed = false;
+        });
+    };
+
+    const unsubscribe = this._client.subscribe<any>(channel, (event) => {
+      if (closed) return;
+      if (ready) {
+        if (local) {
+          apply(event);
+        } else {
+          scheduleRefetch();
+        }
+      } else if (!loading) {
+        load();
+      } else if (pending.length < MAX_PENDING_EVENTS && !missed) {
+        pending.push(event);
+      } else {
+        pending = [];
+        missed = true;
+      }
+    });
+
+    load();
+
+    return () => {
+      closed = true;
+      unsubscribe();
+    };
+  }
+
   // ============ QUERY STRING BUILDING ============
 
   /**
@@ -2337,100 +2781,205 @@ export class TableQueryBuilder<
     return this.formatValue(value);
   }
 
-  async insert(
+  /**
+   * Inserts rows into the table.
+   *
+   * Chain `select(...)` to return the inserted rows, typed like a read query.
+   *
+   * @param data - The row or rows to insert.
+   * @returns A builder resolving to the inserted rows, sent once awaited.
+   */
+  insert(data: InsertRow<TTable> | InsertRow<TTable>[]): this {
+    return this._withMutation({
+      method: "POST",
+      body: data,
+      params: {},
+      prefer: [],
+      operation: "Insert",
+      type: "insert_failed",
+    });
+  }
+
+  /**
+   * Inserts rows, or updates the existing rows conflicting with them.
+   *
+   * Chain `select(...)` to return the affected rows.
+   *
+   * @param data - The row or rows to upsert.
+   * @param options - `onConflict` columns of the unique constraint (default the primary key),
+   *                  `ignoreDuplicates` to skip conflicting rows instead of updating them, and
+   *                  `defaultToNull` to set missing columns to null rather than their default (default `true`).
+   * @returns A builder resolving to the affected rows, sent once awaited.
+   */
+  upsert(
     data: InsertRow<TTable> | InsertRow<TTable>[],
-  ): Promise<ResponseType<TClient, TResultFinal>> {
-    return this._client.withSafeResponse(async () => {
-      const url = new URL(
-        `${this._client.config.endpoint}/schemas/${this._config.schema}/tables/${this._config.tableName}`,
-      );
-      const headers = {
-        "content-type": "application/json",
-      };
-      try {
-        const response = await this._client.call(
-          "POST",
-          url,
-          headers,
-          data as any,
-        );
-        return response;
-      } catch (error) {
-        if (error instanceof NuvixException) {
-          throw error;
-        }
-        throw new NuvixException(
-          `Insert operation failed: ${error instanceof Error ? error.message : String(error)}`,
-          400,
-          `INSERT_OPERATION_ERROR`,
-        );
-      }
+    {
+      onConflict,
+      ignoreDuplicates = false,
+      defaultToNull = true,
+    }: {
+      onConflict?: (keyof InsertRow<TTable> & string)[];
+      ignoreDuplicates?: boolean;
+      defaultToNull?: boolean;
+    } = {},
+  ): this {
+    const prefer = [
+      `resolution=${ignoreDuplicates ? "ignore" : "merge"}-duplicates`,
+    ];
+    if (!defaultToNull) prefer.push("missing=default");
+
+    return this._withMutation({
+      method: "POST",
+      body: data,
+      params: onConflict?.length ? { on_conflict: onConflict.join(",") } : {},
+      prefer,
+      operation: "Upsert",
+      type: "upsert_failed",
     });
   }
 
-  async update(
-    data: Partial<TResult>,
-    options?: { force?: boolean },
-  ): Promise<ResponseType<TClient, TResultFinal>> {
-    return this._client.withSafeResponse(async () => {
-      const query = new URLSearchParams(this.toString());
-      const url = new URL(
-        `${this._client.config.endpoint}/schemas/${this._config.schema}/tables/${this._config.tableName}`,
-      );
-      url.search = query.toString();
-      if (options?.force) {
-        url.searchParams.append("force", "true");
-      }
-      const headers = {
-        "content-type": "application/json",
-      };
+  /**
+   * Updates the rows matching the filters.
+   *
+   * Chain `select(...)` to return the updated rows.
+   *
+   * @param data - The columns to update.
+   * @param options - `force` allows updating without filters.
+   * @returns A builder resolving to the updated rows, sent once awaited.
+   */
+  update(data: Partial<TResult>, options?: { force?: boolean }): this {
+    return this._withMutation({
+      method: "PATCH",
+      body: data,
+      params: options?.force ? { force: "true" } : {},
+      prefer: [],
+      operation: "Update",
+      type: "update_failed",
+    });
+  }
 
-      try {
-        const response = await this._client.call("PATCH", url, headers, data);
-        return response;
-      } catch (error) {
-        if (error instanceof NuvixException) {
-          throw error;
-        }
-        throw new NuvixException(
-          `Update operation failed: ${error instanceof Error ? error.message : String(error)}`,
-          400,
-          `UPDATE_OPERATION_ERROR`,
-        );
-      }
+  /**
+   * Deletes the rows matching the filters.
+   *
+   * Chain `select(...)` to return the deleted rows.
+   *
+   * @param options - `force` allows deleting without filters.
+   * @returns A builder resolving to the deleted rows, sent once awaited.
+   */
+  delete({ force }: { force?: boolean } = {}): this {
+    return this._withMutation({
+      method: "DELETE",
+      body: {},
+      params: force ? { force: "true" } : {},
+      prefer: [],
+      operation: "Delete",
+      type: "delete_failed",
     });
   }
 
-  async delete({ force }: { force?: boolean } = {}): Promise<
-    ResponseType<TClient, TResultFinal>
-  > {
-    return this._client.withSafeResponse(async () => {
-      const query = new URLSearchParams(this.toString());
-      const url = new URL(
-        `${this._client.config.endpoint}/schemas/${this._config.schema}/tables/${this._config.tableName}`,
+  private _withMutation(mutation: Mutation): this {
+    const builder = this._clone({}) as this;
+    builder._mutation = mutation;
+    return builder;
+  }
+
+  private async _executeMutation({
+    method,
+    body,
+    params,
+    prefer,
+    returning,
+    operation,
+    type,
+  }: Mutation): Promise<any> {
+    const url = new URL(
+      `${this._client.config.endpoint}/schemas/${this._config.schema}/tables/${this._config.tableName}`,
+    );
+    // Filters only apply to updates and deletes
+    if (method !== "POST") {
+      url.search = new URLSearchParams(this.toString()).toString();
+    } else if (returning) {
+      url.search = new URLSearchParams(
+        this._buildMainQuery(
+          this._selectedColumns.join(",") || "*",
+          "",
+          this._joins.map((j) => j.query).join(","),
+        ),
+      ).toString();
+    }
+    for (const [key, value] of Object.entries(params)) {
+      url.searchParams.append(key, value);
+    }
+
+    const headers: { [header: string]: string } = {
+      "content-type": "application/json",
+    };
+    const preferences = returning
+      ? [...prefer, "return=representation"]
+      : prefer;
+    if (preferences.length) {
+      headers["prefer"] = preferences.join(",");
+    }
+
+    try {
+      return await this._client.call(
+        method,
+        url,
+        headers,
+        body,
+        "json",
+        this._options,
       );
-      url.search = query.toString();
-      if (force) {
-        url.searchParams.append("force", "true");
+    } catch (error) {
+      if (error instanceof NuvixException) {
+        throw error;
       }
-      const headers = {
-        "content-type": "application/json",
-      };
-      try {
-        const response = await this._client.call("DELETE", url, headers);
-        return response;
-      } catch (error) {
-        if (error instanceof NuvixException) {
-          throw error;
-        }
-        throw new NuvixException(
-          `Delete operation failed: ${error instanceof Error ? error.message : String(error)}`,
-          400,
-          `DELETE_OPERATION_ERROR`,
-        );
-      }
-    });
+      throw new NuvixException(
+        `${operation} operation failed: ${error instanceof Error ? error.message : String(error)}`,
+        400,
+        type,
+      );
+    }
   }
 }
 
 type InsertRow<T> = T extends { Insert: infer U } ? U : never;
+
+/**
+ * Write operation run by the builder instead of a read query.
+ */
+type Mutation = {
+  method: "POST" | "PATCH" | "DELETE";
+  body: any;
+  params: Record<string, string>;
+  prefer: string[];
+  returning?: boolean;
+  operation: "Insert" | "Upsert" | "Update" | "Delete";
+  type: ClientErrorType;
+};
+
+/**
+ * Moves the order of a keyset column first, ascending unless already ordered,
+ * so that pages follow the column compared by the keyset filter.
+ */
+function keysetOrders(orders: string[], column: string): string[] {
+  const order =
+    orders.find((o) => o.split(".")[0] === column) ?? `${column}.asc`;
+  return [order, ...orders.filter((o) => o !== order)];
+}
+
+/**
+ * Events kept while the snapshot of a live query loads, beyond which the
+ * query is run again instead.
+ */
+const MAX_PENDING_EVENTS = 1000;
+
+/**
+ * Reads the total of a `Content-Range` header such as `0-24/3573`.
+ */
+function parseCount(range: string | null): number | null {
+  const total = range?.split("/")[1];
+  if (!total || total === "*") return null;
+  const count = Number(total);
+  return Number.isNaN(count) ? null : count;
+}
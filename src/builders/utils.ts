@@ -155,7 +155,7 @@ export class Column<
       throw new NuvixException(
         "Cannot modify a frozen ColumnBuilder. Use the returned instance from method calls.",
         400,
-        "FROZEN_COLUMN_BUILDER",
+        "column_builder_frozen",
       );
     }
   }
@@ -165,7 +165,7 @@ export class Column<
       throw new NuvixException(
         `Invalid cast type: ${castType}`,
         400,
-        "INVALID_CAST_TYPE",
+        "column_cast_invalid",
       );
     }
   }
@@ -6,13 +6,15 @@ import { Messaging } from "./services/messaging";
 import { Storage } from "./services/storage";
 import { Teams } from "./services/teams";
 import { Database } from "./services/database";
-import { Schemas } from "./type";
+import { Functions } from "./services/functions";
+import { FunctionsSchema, Schemas } from "./type";
+import { Auth } from "./auth";
 
 /**
  * Client
  *
  * The main entry point for interacting with Nuvix backend services.
- * Provides access to all available services (Account, Database, Messaging, Storage, Teams, etc.)
+ * Provides access to all available services (Account, Database, Functions, Messaging, Storage, Teams, etc.)
  * via lazy-loaded properties.
  *
  * Generics:
@@ -21,6 +23,7 @@ import { Schemas } from "./type";
  * @template IsSafe - Boolean flag controlling response type:
  *                     - true: Service/database methods return `{ error: NuvixException; data?: T }`.
  *                     - false: Methods return data directly (`T`).
+ * @template Fns - The request and response types of the functions, by function ID.
  *
  * Example usage:
  *
@@ -38,6 +41,7 @@ import { Schemas } from "./type";
 export class Client<
   DB extends Schemas,
   IsSafe extends boolean,
+  Fns extends FunctionsSchema = FunctionsSchema,
 > extends BaseClient<IsSafe> {
   // Lazy private fields
   private _account?: Account<any>;
@@ -47,6 +51,8 @@ export class Client<
   private _storage?: Storage<any>;
   private _teams?: Teams<any>;
   private _database?: Database<DB, this>;
+  private _functions?: Functions<any, Fns>;
+  private _auth?: Auth<any>;
 
   // Lazy getters
   public get account(): Account<BaseClient<IsSafe>> {
@@ -87,4 +93,14 @@ export class Client<
   public get db() {
     return this.database;
   }
+
+  public get functions(): Functions<BaseClient<IsSafe>, Fns> {
+    if (!this._functions) this._functions = new Functions<any, Fns>(this);
+    return this._functions;
+  }
+
+  public get auth(): Auth<BaseClient<IsSafe>> {
+    if (!this._auth) this._auth = new Auth(this, this.authOptions);
+    return this._auth;
+  }
 }
@@ -1,3 +1,153 @@
+/**
+ * Error types returned by the Nuvix server.
+ * See [Error Types](https://nuvix.io/docs/response-codes#errorTypes) for more information.
+ */
+export type ServerErrorType =
+  // General
+  | "general_mock"
+  | "general_argument_invalid"
+  | "general_query_limit_exceeded"
+  | "general_query_invalid"
+  | "general_cursor_not_found"
+  | "general_access_forbidden"
+  | "general_unauthorized_scope"
+  | "general_rate_limit_exceeded"
+  | "general_route_not_found"
+  | "general_not_implemented"
+  | "general_unknown_origin"
+  | "general_service_disabled"
+  | "general_protocol_unsupported"
+  | "general_server_error"
+  | "general_unknown"
+  // Users
+  | "user_count_exceeded"
+  | "user_jwt_invalid"
+  | "user_already_exists"
+  | "user_blocked"
+  | "user_invalid_token"
+  | "user_password_reset_required"
+  | "user_email_not_whitelisted"
+  | "user_invalid_code"
+  | "user_ip_not_whitelisted"
+  | "user_invalid_credentials"
+  | "user_anonymous_console_prohibited"
+  | "user_session_already_exists"
+  | "user_not_found"
+  | "user_password_recently_used"
+  | "user_password_personal_data"
+  | "user_email_already_exists"
+  | "user_password_mismatch"
+  | "user_session_not_found"
+  | "user_identity_not_found"
+  | "user_unauthorized"
+  | "user_auth_method_unsupported"
+  | "user_phone_already_exists"
+  | "user_phone_not_found"
+  | "user_missing_id"
+  | "user_more_factors_required"
+  | "user_invalid_challenge"
+  | "user_authenticator_not_found"
+  | "user_authenticator_already_verified"
+  | "user_recovery_codes_already_exists"
+  | "user_recovery_codes_not_found"
+  | "user_challenge_required"
+  | "user_oauth2_bad_request"
+  | "user_oauth2_unauthorized"
+  | "user_oauth2_provider_error"
+  | "user_target_not_found"
+  | "user_target_already_exists"
+  // Teams
+  | "team_not_found"
+  | "team_invite_already_exists"
+  | "team_invite_not_found"
+  | "team_invalid_secret"
+  | "team_membership_mismatch"
+  | "team_invite_mismatch"
+  | "team_already_exists"
+  | "membership_not_found"
+  | "membership_already_confirmed"
+  // Avatars
+  | "avatar_set_not_found"
+  | "avatar_not_found"
+  | "avatar_image_not_found"
+  | "avatar_remote_url_failed"
+  | "avatar_icon_not_found"
+  // Storage
+  | "storage_file_not_found"
+  | "storage_device_not_found"
+  | "storage_file_empty"
+  | "storage_file_type_unsupported"
+  | "storage_invalid_file_size"
+  | "storage_invalid_file"
+  | "storage_bucket_not_found"
+  | "storage_invalid_content_range"
+  | "storage_invalid_range"
+  | "storage_invalid_appwrite_id"
+  | "storage_file_already_exists"
+  // Functions
+  | "function_not_found"
+  | "function_runtime_unsupported"
+  | "function_entrypoint_missing"
+  | "execution_not_found"
+  // Databases
+  | "database_not_found"
+  | "database_already_exists"
+  | "database_timeout"
+  | "collection_not_found"
+  | "collection_already_exists"
+  | "collection_limit_exceeded"
+  | "document_not_found"
+  | "document_invalid_structure"
+  | "document_missing_data"
+  | "document_missing_payload"
+  | "document_already_exists"
+  | "document_update_conflict"
+  | "document_delete_restricted"
+  | "attribute_not_found"
+  | "attribute_value_invalid"
+  | "index_not_found"
+  | "schema_not_found"
+  | "table_not_found"
+  | "row_not_found"
+  // Messaging
+  | "topic_not_found"
+  | "subscriber_not_found"
+  | "subscriber_already_exists"
+  | "target_not_found"
+  // Projects
+  | "project_not_found"
+  | "project_unknown"
+  | "project_key_expired"
+  | "project_provider_disabled";
+
+/**
+ * Error types raised by the SDK itself, without a response from the server.
+ */
+export type ClientErrorType =
+  | "request_timeout"
+  | "request_aborted"
+  | "query_no_rows"
+  | "query_failed"
+  | "insert_failed"
+  | "upsert_failed"
+  | "update_failed"
+  | "delete_failed"
+  | "column_builder_frozen"
+  | "column_cast_invalid"
+  | "function_execution_failed"
+  | "function_invalid_response"
+  | "oauth_unsupported"
+  | "oauth_popup_blocked"
+  | "oauth_popup_closed"
+  | "oauth_aborted"
+  | "oauth_failed"
+  | "oauth_state_mismatch"
+  | "mfa_invalid_factor"
+  | "mfa_invalid_state"
+  | "totp_invalid_uri";
+
+export type NuvixErrorType = ServerErrorType | ClientErrorType;
+
 /**
  * Exception thrown by the  package
  */
@@ -16,7 +166,7 @@ export class NuvixException extends Error {
    * Error type.
    * See [Error Types](https://nuvix.io/docs/response-codes#errorTypes) for more information.
    */
-  type: string;
+  type: NuvixErrorType | (string & {});
 
   /**
    * Initializes a Nuvix Exception.
@@ -29,7 +179,7 @@ export class NuvixException extends Error {
   constructor(
     message: string,
     code: number = 0,
-    type: string = "",
+    type: NuvixErrorType | (string & {}) = "",
     response: string = "",
   ) {
     super(message);
@@ -40,3 +190,172 @@ export class NuvixException extends Error {
     this.response = response;
   }
 }
+
+/**
+ * Exception thrown when a request is aborted through its signal or times out
+ */
+export class NuvixAbortException extends NuvixException {
+  /**
+   * Whether the request was aborted by the caller or timed out.
+   */
+  reason: "aborted" | "timeout";
+
+  /**
+   * Initializes a Nuvix Abort Exception.
+   *
+   * @param {string} message - The error message.
+   * @param {"aborted" | "timeout"} reason - Why the request was cancelled.
+   */
+  constructor(message: string, reason: "aborted" | "timeout") {
+    super(
+      message,
+      0,
+      reason === "timeout" ? "request_timeout" : "request_aborted",
+    );
+    this.name = "NuvixAbortException";
+    this.reason = reason;
+  }
+}
+
+/**
+ * Exception thrown when the request is not authenticated (401).
+ */
+export class AuthError extends NuvixException {
+  constructor(message: string, code = 401, type = "", response = "") {
+    super(message, code, type, response);
+    this.name = "AuthError";
+  }
+}
+
+/**
+ * Exception thrown when the user lacks the permissions for a resource (403).
+ */
+export class PermissionError extends NuvixException {
+  constructor(message: string, code = 403, type = "", response = "") {
+    super(message, code, type, response);
+    this.name = "PermissionError";
+  }
+}
+
+/**
+ * Exception thrown when a resource does not exist (404).
+ */
+export class NotFoundError extends NuvixException {
+  constructor(message: string, code = 404, type = "", response = "") {
+    super(message, code, type, response);
+    this.name = "NotFoundError";
+  }
+}
+
+/**
+ * Exception thrown when a resource conflicts with an existing one (409).
+ */
+export class ConflictError extends NuvixException {
+  constructor(message: string, code = 409, type = "", response = "") {
+    super(message, code, type, response);
+    this.name = "ConflictError";
+  }
+}
+
+/**
+ * Exception thrown when too many requests were sent (429).
+ */
+export class RateLimitError extends NuvixException {
+  constructor(message: string, code = 429, type = "", response = "") {
+    super(message, code, type, response);
+    this.name = "RateLimitError";
+  }
+}
+
+/**
+ * Exception thrown when the parameters of a request are invalid (400).
+ */
+export class ValidationError extends NuvixException {
+  constructor(message: string, code = 400, type = "", response = "") {
+    super(message, code, type, response);
+    this.name = "ValidationError";
+  }
+}
+
+/**
+ * Create the exception matching the status code of an error response.
+ *
+ * @param {string} message - The error message.
+ * @param {number} code - The status code.
+ * @param {string} type - The error type.
+ * @param {string} response - The response string.
+ * @returns {NuvixException}
+ */
+export function createNuvixException(
+  message: string,
+  code: number,
+  type: string = "",
+  response: string = "",
+): NuvixException {
+  switch (code) {
+    case 400:
+    case 422:
+      return new ValidationError(message, code, type, response);
+    case 401:
+      return new AuthError(message, code, type, response);
+    case 403:
+      return new PermissionError(message, code, type, response);
+    case 404:
+      return new NotFoundError(message, code, type, response);
+    case 409:
+      return new ConflictError(message, code, type, response);
+    case 429:
+      return new RateLimitError(message, code, type, response);
+    default:
+      return new NuvixException(message, code, type, response);
+  }
+}
+
+/**
+ * Normalize any thrown value to a Nuvix exception.
+ *
+ * @param {unknown} error
+ * @returns {NuvixException}
+ */
+export function toNuvixException(error: unknown): NuvixException {
+  if (error instanceof NuvixException) return error;
+  if (error instanceof Error && error.name === "AbortError") {
+    return new NuvixAbortException(error.message, "aborted");
+  }
+  if (error instanceof Error) {
+    const exception = new NuvixException(error.message, 0, "general_unknown");
+    exception.cause = error;
+    return exception;
+  }
+  return new NuvixException(String(error), 0, "general_unknown");
+}
+
+/**
+ * Whether a value is a Nuvix exception, optionally of the given types.
+ *
+ * @example
+ * ```ts
+ * if (isNuvixError(e, "user_not_found")) {
+ *   // e.type is narrowed to "user_not_found"
+ * }
+ * ```
+ *
+ * @param {unknown} error
+ * @param {NuvixErrorType | NuvixErrorType[]} type
+ * @returns {boolean}
+ */
+export function isNuvixError(error: unknown): error is NuvixException;
+export function isNuvixError<T extends NuvixErrorType>(
+  error: unknown,
+  type: T | T[],
+): error is NuvixException & { type: T };
+export function isNuvixError(
+  error: unknown,
+  type?: NuvixErrorType | NuvixErrorType[],
+): boolean {
+  if (!(error instanceof NuvixException)) return false;
+  if (type === undefined) return true;
+  return Array.isArray(type)
+    ? (type as string[]).includes(error.type)
+    : error.type === type;
+}
@@ -5,22 +5,85 @@
  * For older versions, please check
  * [previous releases](https://github.com/nuvix-tech/sdk-for-web/releases).
  */
-export { BaseClient, Query, NuvixException } from "./base-client";
+export {
+  BaseClient,
+  Query,
+  NuvixException,
+  NuvixAbortException,
+} from "./base-client";
+export {
+  AuthError,
+  ConflictError,
+  NotFoundError,
+  PermissionError,
+  RateLimitError,
+  ValidationError,
+  isNuvixError,
+} from "./error";
+export type { ClientErrorType, NuvixErrorType, ServerErrorType } from "./error";
 export { Client } from "./client";
+export { Auth } from "./auth";
+export type { AuthChangeEvent, AuthStateChangeCallback } from "./auth";
+export { MfaFlow, isMfaRequired } from "./mfa";
+export type { MfaState, MfaStateCallback } from "./mfa";
+export {
+  handleOAuthCallback,
+  parseOAuthCallback,
+  verifyOAuthCallback,
+} from "./oauth";
+export type {
+  NativeOAuthFlow,
+  NativeOAuthOptions,
+  OAuthCallback,
+  OAuthPopupOptions,
+} from "./oauth";
+export { createQrDataUrl, createQrSvg } from "./qr";
+export type { QrErrorCorrection, QrOptions } from "./qr";
+export { generateHotp, generateTotp, parseOtpAuthUri } from "./totp";
+export type { OtpAuthUri, TotpAlgorithm, TotpOptions } from "./totp";
+export { Paginator, paginate } from "./paginate";
+export type { Page, PageFetcher, PaginateOptions } from "./paginate";
+export { UploadQueue, UploadTask } from "./upload";
+export type {
+  UploadControl,
+  UploadProgressCallback,
+  UploadQueueIdleCallback,
+  UploadQueueItem,
+  UploadQueueItemCallback,
+  UploadQueueOptions,
+  UploadQueueProgress,
+  UploadQueueProgressCallback,
+  UploadQueueStatus,
+  UploadState,
+  UploadStateCallback,
+} from "./upload";
+export { createServerClient } from "./server";
+export type { CookieOptions, ServerClientOptions } from "./server";
 export { Account } from "./services/account";
 export { Avatars } from "./services/avatars";
 export { Database } from "./services/database";
+export { Functions } from "./services/functions";
+export type { ExecutionPollOptions, InvokeOptions } from "./services/functions";
 export { Locale } from "./services/locale";
 export { Messaging } from "./services/messaging";
 export { Storage } from "./services/storage";
 export { Teams } from "./services/teams";
 export type {
+  Middleware,
   Models,
   Payload,
   RealtimeResponseEvent,
+  RequestContext,
   UploadProgress,
 } from "./base-client";
 export type { QueryTypes, QueryTypesList } from "./query";
+export type {
+  FunctionSchema,
+  FunctionsSchema,
+  Result,
+  SafeResponse,
+  UploadOptions,
+} from "./type";
 export { Permission } from "./permission";
 export { Role } from "./role";
 export { ID } from "./id";
@@ -33,5 +96,17 @@ export { Flag } from "./enums/flag";
 export { ExecutionMethod } from "./enums/execution-method";
 export { ImageGravity } from "./enums/image-gravity";
 export { ImageFormat } from "./enums/image-format";
+export {
+  MemoryStorageAdapter,
+  LocalStorageAdapter,
+  CookieStorageAdapter,
+} from "./adapters";
+export type { FetchAdapter, StorageAdapter } from "./adapters";
+export type {
+  BulkItemResult,
+  BulkOptions,
+  BulkResult,
+  CountMethod,
+} from "./builders";
 export { column } from "./builders/utils";
 export * from "./builders/helpers";
@@ -0,0 +1,235 @@
+import { BaseClient, NuvixException } from "./base-client";
+import { isNuvixError } from "./error";
+import type { Models } from "./models";
+import { Account } from "./services/account";
+import { AuthenticationFactor } from "./enums/authentication-factor";
+
+/**
+ * Steps of the MFA sign-in flow.
+ */
+export type MfaState =
+  | {
+      step: "idle";
+    }
+  | {
+      /**
+       * The session needs another factor, pick one with `challenge()`.
+       */
+      step: "factor_required";
+      factors: AuthenticationFactor[];
+    }
+  | {
+      /**
+       * A challenge was issued, complete it with `verify()`.
+       * `error` is set when the previous code was rejected.
+       */
+      step: "challenge";
+      factor: AuthenticationFactor;
+      challenge: Models.MfaChallenge;
+      factors: AuthenticationFactor[];
+      error?: NuvixException;
+    }
+  | {
+      step: "authenticated";
+      session: Models.Session | null;
+    };
+
+export type MfaStateCallback = (state: MfaState) => void;
+
+/**
+ * Whether an error requires the user to complete another authentication factor.
+ *
+ * @param {unknown} error
+ * @returns {boolean}
+ */
+export function isMfaRequired(error: unknown): error is NuvixException {
+  return isNuvixError(error, "user_more_factors_required");
+}
+
+/**
+ * MfaFlow
+ *
+ * Guides the sign-in of users with multi-factor authentication: detects the
+ * `user_more_factors_required` error, lists the available factors, then
+ * issues and verifies challenges. Every step is exposed as a typed state.
+ *
+ * @example
+ * ```ts
+ * let state = await client.auth.mfa.signIn(email, password);
+ * if (state.step === "factor_required") {
+ *   state = await client.auth.mfa.challenge(state.factors[0]);
+ *   state = await client.auth.mfa.verify(code);
+ * }
+ * ```
+ */
+export class MfaFlow<T extends BaseClient> {
+  client: T;
+
+  private account: Account<T>;
+  private listeners = new Set<MfaStateCallback>();
+  private _state: MfaState = { step: "idle" };
+
+  constructor(client: T) {
+    this.client = client;
+    this.account = new Account(client);
+  }
+
+  /**
+   * The current step of the flow.
+   */
+  get state(): MfaState {
+    return this._state;
+  }
+
+  /**
+   * Listen to state changes.
+   *
+   * @param {MfaStateCallback} callback
+   * @returns {() => void} Function to remove the listener.
+   */
+  onChange(callback: MfaStateCallback): () => void {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  /**
+   * Sign in with email and password, then check for required factors.
+   *
+   * @param {string} email
+   * @param {string} password
+   * @returns {Promise<MfaState>}
+   */
+  async signIn(email: string, password: string): Promise<MfaState> {
+    const session = await this.client.unwrap(
+      this.account.createEmailPasswordSession(email, password),
+    );
+    return await this.check(session);
+  }
+
+  /**
+   * Check whether the current session needs another factor.
+   *
+   * @param {Models.Session | null} session - The session just created, if known.
+   * @returns {Promise<MfaState>}
+   */
+  async check(session: Models.Session | null = null): Promise<MfaState> {
+    try {
+      await this.client.unwrap(this.account.get());
+    } catch (e) {
+      return await this.handleError(e);
+    }
+    return this.setState({ step: "authenticated", session });
+  }
+
+  /**
+   * Move to the factor selection when the error requires another factor.
+   *
+   * @param {unknown} error - Any error thrown by a request.
+   * @throws The error itself when it is not related to MFA.
+   * @returns {Promise<MfaState>}
+   */
+  async handleError(error: unknown): Promise<MfaState> {
+    if (!isMfaRequired(error)) throw error;
+
+    const factors = await this.client.unwrap(this.account.listMfaFactors());
+    return this.setState({
+      step: "factor_required",
+      factors: getFactors(factors),
+    });
+  }
+
+  /**
+   * Issue a challenge for a factor.
+   *
+   * For the recovery code factor, no message is sent and one of the codes
+   * is verified directly.
+   *
+   * @param {AuthenticationFactor} factor
+   * @returns {Promise<MfaState>}
+   */
+  async challenge(factor: AuthenticationFactor): Promise<MfaState> {
+    const factors = this.getAvailableFactors();
+    if (!factors.includes(factor)) {
+      throw new NuvixException(
+        `Factor "${factor}" is not available for this user`,
+        0,
+        "mfa_invalid_factor",
+      );
+    }
+
+    const challenge = await this.client.unwrap(
+      this.account.createMfaChallenge(factor),
+    );
+    return this.setState({ step: "challenge", factor, challenge, factors });
+  }
+
+  /**
+   * Verify the code of the pending challenge.
+   *
+   * A rejected code keeps the flow on the challenge step with its `error`,
+   * so the user can try again.
+   *
+   * @param {string} otp
+   * @returns {Promise<MfaState>}
+   */
+  async verify(otp: string): Promise<MfaState> {
+    const state = this._state;
+    if (state.step !== "challenge") {
+      throw new NuvixException(
+        "No MFA challenge to verify",
+        0,
+        "mfa_invalid_state",
+      );
+    }
+
+    try {
+      const session = await this.client.unwrap(
+        this.account.updateMfaChallenge(state.challenge.$id, otp),
+      );
+      return this.setState({ step: "authenticated", session });
+    } catch (e) {
+      if (!(e instanceof NuvixException) || e.code !== 401) throw e;
+      return this.setState({ ...state, error: e });
+    }
+  }
+
+  /**
+   * Go back to the first step.
+   */
+  reset(): void {
+    this.setState({ step: "idle" });
+  }
+
+  private getAvailableFactors(): AuthenticationFactor[] {
+    const state = this._state;
+    return state.step === "factor_required" || state.step === "challenge"
+      ? state.factors
+      : [];
+  }
+
+  private setState(state: MfaState): MfaState {
+    this._state = state;
+    for (const listener of [...this.listeners]) {
+      try {
+        listener(state);
+      } catch (e) {
+        console.error(e);
+      }
+    }
+    return state;
+  }
+}
+
+/**
+ * Factors enabled for the user, in order of preference.
+ */
+function getFactors(factors: Models.MfaFactors): AuthenticationFactor[] {
+  const available: AuthenticationFactor[] = [];
+  if (factors.totp) available.push(AuthenticationFactor.Totp);
+  if (factors.email) available.push(AuthenticationFactor.Email);
+  if (factors.phone) available.push(AuthenticationFactor.Phone);
+  if (factors.recoveryCode) available.push(AuthenticationFactor.Recoverycode);
+  return available;
+}
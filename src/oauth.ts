@@ -0,0 +1,405 @@
+import { BaseClient, NuvixException } from "./base-client";
+import { OAuthProvider } from "./enums/o-auth-provider";
+
+/**
+ * Result of an OAuth2 redirect, read from the success or failure URL.
+ */
+export type OAuthCallback =
+  | {
+      status: "success";
+      state: string | null;
+      /**
+       * Token pair of the token flow, exchanged with `createSession`.
+       */
+      userId: string | null;
+      secret: string | null;
+    }
+  | {
+      status: "failure";
+      state: string | null;
+      error: string;
+    };
+
+/**
+ * Options of `client.auth.signInWithOAuthPopup`.
+ */
+export type OAuthPopupOptions = {
+  provider: OAuthProvider;
+
+  /**
+   * Page of the app, on the same origin, calling `handleOAuthCallback()`.
+   */
+  redirectUrl: string;
+
+  scopes?: string[];
+
+  /**
+   * `token` exchanges the returned `userId`/`secret` pair with `createSession`,
+   * `session` relies on the session cookie set by the provider redirect.
+   * Defaults to `token`.
+   */
+  flow?: "token" | "session";
+
+  /**
+   * Size of the popup window in pixels.
+   */
+  width?: number;
+  height?: number;
+
+  /**
+   * Cancels the flow and closes the popup.
+   */
+  signal?: AbortSignal;
+};
+
+/**
+ * Options of `client.auth.createNativeOAuthFlow`.
+ */
+export type NativeOAuthOptions = {
+  provider: OAuthProvider;
+
+  /**
+   * Deep link the provider redirects to, usually with a custom scheme such as `myapp://oauth`.
+   */
+  redirectUrl: string;
+
+  /**
+   * Deep link for failures, defaults to `redirectUrl`.
+   */
+  failureUrl?: string;
+
+  scopes?: string[];
+};
+
+/**
+ * Pending native OAuth2 flow.
+ */
+export type NativeOAuthFlow = {
+  /**
+   * URL to open in the system browser.
+   */
+  url: string;
+
+  /**
+   * State sent with the flow, derived from the verifier.
+   */
+  state: string;
+
+  /**
+   * Secret kept by the app to validate the returned state.
+   */
+  verifier: string;
+};
+
+/** Message posted by the callback page to its opener */
+type OAuthMessage = OAuthCallback & { type: typeof MESSAGE_TYPE };
+
+const MESSAGE_TYPE = "nuvix:oauth";
+
+/** Query parameter marking the callback URLs of the SDK */
+const STATUS_PARAM = "nuvix_oauth";
+
+/**
+ * Build the URL starting an OAuth2 flow.
+ *
+ * @param {BaseClient} client
+ * @param {"token" | "session"} flow
+ * @param {OAuthProvider} provider
+ * @param {string} success
+ * @param {string} failure
+ * @param {string[]} scopes
+ * @returns {string}
+ */
+export function getOAuthUrl(
+  client: BaseClient,
+  flow: "token" | "session",
+  provider: OAuthProvider,
+  success: string,
+  failure: string,
+  scopes?: string[],
+): string {
+  const apiPath = (
+    flow === "token"
+      ? "/account/tokens/oauth2/{provider}"
+      : "/account/sessions/oauth2/{provider}"
+  ).replace("{provider}", provider);
+  const uri = new URL(client.config.endpoint + apiPath);
+
+  const payload = BaseClient.flatten({
+    success,
+    failure,
+    ...(scopes ? { scopes } : {}),
+    project: client.config.project,
+  });
+  for (const [key, value] of Object.entries(payload)) {
+    uri.searchParams.append(key, value);
+  }
+
+  return uri.toString();
+}
+
+/**
+ * Add the SDK status and state parameters to a callback URL.
+ *
+ * @param {string} url
+ * @param {"success" | "failure"} status
+ * @param {string} state
+ * @returns {string}
+ */
+export function getOAuthCallbackUrl(
+  url: string,
+  status: "success" | "failure",
+  state: string,
+): string {
+  const [base, hash] = url.split("#");
+  const separator = base.includes("?") ? "&" : "?";
+  const query = `${STATUS_PARAM}=${status}&state=${encodeURIComponent(state)}`;
+  return `${base}${separator}${query}${hash !== undefined ? `#${hash}` : ""}`;
+}
+
+/**
+ * Parse the URL an OAuth2 flow redirected to.
+ *
+ * Pure function, usable without a browser. Returns null for URLs that are
+ * not OAuth2 callbacks built by the SDK.
+ *
+ * @param {string | URL} url
+ * @returns {OAuthCallback | null}
+ */
+export function parseOAuthCallback(url: string | URL): OAuthCallback | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  const params = parsed.searchParams;
+  const status = params.get(STATUS_PARAM);
+  const state = params.get("state");
+
+  if (status === "success") {
+    return {
+      status,
+      state,
+      userId: params.get("userId"),
+      secret: params.get("secret"),
+    };
+  }
+
+  if (status === "failure") {
+    return {
+      status,
+      state,
+      error: readError(params.get("error")),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Validate a parsed OAuth2 callback against the expected state.
+ *
+ * Pure function, usable without a browser.
+ *
+ * @param {OAuthCallback | null} callback
+ * @param {string} state
+ * @throws {NuvixException} When the callback failed, is missing or has another state.
+ * @returns {{ userId: string; secret: string }} The token pair to exchange with `createSession`.
+ */
+export function verifyOAuthCallback(
+  callback: OAuthCallback | null,
+  state: string,
+): { userId: string; secret: string } {
+  if (!callback || callback.state !== state) {
+    throw new NuvixException(
+      "OAuth2 callback does not match the pending flow",
+      0,
+      "oauth_state_mismatch",
+    );
+  }
+
+  if (callback.status === "failure") {
+    throw new NuvixException(callback.error, 0, "oauth_failed");
+  }
+
+  if (!callback.userId || !callback.secret) {
+    throw new NuvixException(
+      "OAuth2 callback is missing the user ID or secret",
+      0,
+      "oauth_failed",
+    );
+  }
+
+  return { userId: callback.userId, secret: callback.secret };
+}
+
+/**
+ * Derive the state of a native flow from its verifier (SHA-256, base64url).
+ *
+ * @param {string} verifier
+ * @returns {Promise<string>}
+ */
+export async function createCodeChallenge(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(verifier),
+  );
+  return base64Url(new Uint8Array(digest));
+}
+
+/**
+ * Handle the OAuth2 callback in the popup opened by `signInWithOAuthPopup`.
+ *
+ * Call it on the page of the `redirectUrl`. The result is posted to the
+ * opener window, on the same origin only, and the popup is closed.
+ *
+ * @returns {OAuthCallback | null} The parsed callback, or null outside of one.
+ */
+export function handleOAuthCallback(): OAuthCallback | null {
+  if (typeof window === "undefined") return null;
+
+  const callback = parseOAuthCallback(window.location.href);
+  if (!callback || !window.opener) return callback;
+
+  window.opener.postMessage(
+    { ...callback, type: MESSAGE_TYPE } as OAuthMessage,
+    window.location.origin,
+  );
+  window.close();
+
+  return callback;
+}
+
+/**
+ * Open the OAuth2 popup and wait for its successful callback.
+ *
+ * @param {string} url - URL starting the flow.
+ * @param {string} state - State expected in the callback.
+ * @param {OAuthPopupOptions} options
+ * @returns {Promise<OAuthCallback>}
+ */
+export function openOAuthPopup(
+  url: string,
+  state: string,
+  { redirectUrl, width = 500, height = 600, signal }: OAuthPopupOptions,
+): Promise<Extract<OAuthCallback, { status: "success" }>> {
+  if (typeof window === "undefined") {
+    throw new NuvixException(
+      "OAuth2 popups are only available in browsers",
+      0,
+      "oauth_unsupported",
+    );
+  }
+
+  const left = window.screenX + (window.outerWidth - width) / 2;
+  const top = window.screenY + (window.outerHeight - height) / 2;
+  const popup = window.open(
+    url,
+    "nuvix-oauth",
+    `width=${width},height=${height},left=${left},top=${top}`,
+  );
+
+  if (!popup) {
+    throw new NuvixException(
+      "OAuth2 popup was blocked by the browser",
+      0,
+      "oauth_popup_blocked",
+    );
+  }
+
+  const origin = new URL(redirectUrl, window.location.href).origin;
+
+  return new Promise((resolve, reject) => {
+    const cleanUp = () => {
+      window.removeEventListener("message", onMessage);
+      signal?.removeEventListener("abort", onAbort);
+      clearInterval(poll);
+    };
+
+    const onMessage = (event: MessageEvent<OAuthMessage>) => {
+      if (
+        event.origin !== origin ||
+        event.data?.type !== MESSAGE_TYPE ||
+        event.data.state !== state
+      ) {
+        return;
+      }
+
+      cleanUp();
+      const { type, ...callback } = event.data;
+      if (callback.status === "success") {
+        resolve(callback);
+      } else {
+        reject(new NuvixException(callback.error, 0, "oauth_failed"));
+      }
+    };
+
+    const onAbort = () => {
+      cleanUp();
+      popup.close();
+      reject(new NuvixException("OAuth2 flow was aborted", 0, "oauth_aborted"));
+    };
+
+    // The popup gives no event when closed by the user
+    const poll = setInterval(() => {
+      if (!popup.closed) return;
+
+      // Leave time for the message posted right before closing
+      clearInterval(poll);
+      setTimeout(() => {
+        cleanUp();
+        reject(
+          new NuvixException(
+            "OAuth2 popup was closed before completing",
+            0,
+            "oauth_popup_closed",
+          ),
+        );
+      }, 100);
+    }, 500);
+
+    window.addEventListener("message", onMessage);
+    if (signal?.aborted) {
+      onAbort();
+    } else {
+      signal?.addEventListener("abort", onAbort);
+    }
+  });
+}
+
+/**
+ * Random URL-safe string of the given number of bytes.
+ *
+ * @param {number} bytes
+ * @returns {string}
+ */
+export function randomString(bytes = 32): string {
+  const values = crypto.getRandomValues(new Uint8Array(bytes));
+  return base64Url(values);
+}
+
+function base64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+/**
+ * Read the message of the `error` parameter of a failure callback.
+ */
+function readError(error: string | null): string {
+  if (!error) return "OAuth2 authentication failed";
+  try {
+    const parsed = JSON.parse(error);
+    return typeof parsed?.message === "string" ? parsed.message : error;
+  } catch {
+    return error;
+  }
+}
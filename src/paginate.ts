@@ -0,0 +1,185 @@
+import { Query } from "./query";
+import type { RequestOptions } from "./type";
+
+/**
+ * Page of a list endpoint.
+ */
+export type Page<T> = {
+  /**
+   * Total number of items matching the queries.
+   */
+  total: number;
+  data: T[];
+};
+
+/**
+ * Fetch one page of a list endpoint with the given queries.
+ */
+export type PageFetcher = (
+  queries: string[],
+  options: RequestOptions,
+) => Promise<any>;
+
+/**
+ * Options of the pagination iterators.
+ */
+export type PaginateOptions = RequestOptions & {
+  /**
+   * Number of items per request. Defaults to the `limit` query, or 25.
+   */
+  pageSize?: number;
+};
+
+const DEFAULT_PAGE_SIZE = 25;
+
+/**
+ * Paginator
+ *
+ * Walks the pages of a list endpoint with cursor queries. Iterate it with
+ * `for await` to get every item, or iterate `pages()` to get every page.
+ * Endpoints with items without `$id` are walked with offsets.
+ *
+ * Aborting the `signal` stops the iteration without an error. In safe
+ * response mode, the error of a failed page is thrown.
+ *
+ * @example
+ * ```ts
+ * for await (const file of storage.paginateFiles("<BUCKET_ID>")) {
+ *   console.log(file.name);
+ * }
+ * ```
+ */
+export class Paginator<T> implements AsyncIterable<T> {
+  /**
+   * Total number of items, known after the first page.
+   */
+  total: number | null = null;
+
+  private fetchPage: PageFetcher;
+  private queries: string[];
+  private options: PaginateOptions;
+
+  constructor(
+    fetchPage: PageFetcher,
+    queries: string[] = [],
+    options: PaginateOptions = {},
+  ) {
+    this.fetchPage = fetchPage;
+    this.queries = queries;
+    this.options = options;
+  }
+
+  /**
+   * Iterate over the pages.
+   *
+   * @returns {AsyncGenerator<Page<T>>}
+   */
+  async *pages(): AsyncGenerator<Page<T>, void, undefined> {
+    const { pageSize, ...options } = this.options;
+    const { signal } = options;
+
+    const filters: string[] = [];
+    let limit: number | undefined;
+    let cursor: { method: "cursorAfter" | "cursorBefore"; id: string } | null =
+      null;
+    let offset = 0;
+
+    for (const query of this.queries) {
+      const { method, values } = JSON.parse(query);
+      if (method === "limit") {
+        limit = values[0];
+      } else if (method === "offset") {
+        offset = values[0];
+      } else if (method === "cursorAfter" || method === "cursorBefore") {
+        cursor = { method, id: values[0] };
+      } else {
+        filters.push(query);
+      }
+    }
+
+    const size = pageSize ?? limit ?? DEFAULT_PAGE_SIZE;
+    const backwards = cursor?.method === "cursorBefore";
+
+    while (!signal?.aborted) {
+      const queries = [...filters, Query.limit(size)];
+      if (cursor) {
+        queries.push(
+          cursor.method === "cursorAfter"
+            ? Query.cursorAfter(cursor.id)
+            : Query.cursorBefore(cursor.id),
+        );
+      } else if (offset) {
+        queries.push(Query.offset(offset));
+      }
+
+      let page: Page<T>;
+      try {
+        const result = await this.fetchPage(queries, options);
+        if (result.error) throw result.error;
+        page = { total: result.total, data: result.data };
+      } catch (e) {
+        if (signal?.aborted) return;
+        throw e;
+      }
+
+      this.total = page.total;
+      if (page.data.length) yield page;
+      if (page.data.length < size) return;
+
+      const next: any = backwards
+        ? page.data[0]
+        : page.data[page.data.length - 1];
+      if (typeof next?.$id === "string") {
+        cursor = { method: cursor?.method ?? "cursorAfter", id: next.$id };
+      } else {
+        offset += page.data.length;
+      }
+    }
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<T, void, undefined> {
+    const { signal } = this.options;
+    for await (const page of this.pages()) {
+      for (const item of page.data) {
+        if (signal?.aborted) return;
+        yield item;
+      }
+    }
+  }
+
+  /**
+   * Collect every item in an array.
+   *
+   * @returns {Promise<T[]>}
+   */
+  async toArray(): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of this) {
+      items.push(item);
+    }
+    return items;
+  }
+}
+
+/**
+ * Paginate any list endpoint.
+ *
+ * @example
+ * ```ts
+ * const logs = paginate<Models.Log>((queries, options) =>
+ *   account.listLogs(queries, options),
+ * );
+ * ```
+ *
+ * @param {PageFetcher} fetchPage - Fetch a page with the given queries.
+ * @param {string[]} queries - Filters and ordering, and optionally a limit or a starting cursor.
+ * @param {PaginateOptions} options
+ * @returns {Paginator<T>}
+ */
+export function paginate<T>(
+  fetchPage: PageFetcher,
+  queries: string[] = [],
+  options: PaginateOptions = {},
+): Paginator<T> {
+  return new Paginator<T>(fetchPage, queries, options);
+}
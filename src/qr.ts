@@ -0,0 +1,530 @@
+/**
+ * Error correction level of a QR code, from lowest to highest.
+ */
+export type QrErrorCorrection = "L" | "M" | "Q" | "H";
+
+/**
+ * Options of `createQrSvg`.
+ */
+export type QrOptions = {
+  /**
+   * Error correction level. Defaults to `M`.
+   */
+  errorCorrection?: QrErrorCorrection;
+
+  /**
+   * Width and height of the image in pixels. Defaults to 256.
+   */
+  size?: number;
+
+  /**
+   * Quiet zone around the code, in modules. Defaults to 4.
+   */
+  margin?: number;
+
+  /**
+   * Colors of the dark and light modules.
+   */
+  dark?: string;
+  light?: string;
+};
+
+const ECC_LEVELS: QrErrorCorrection[] = ["L", "M", "Q", "H"];
+
+/** Format bits of each error correction level */
+const ECC_FORMAT_BITS: Record<QrErrorCorrection, number> = {
+  L: 1,
+  M: 0,
+  Q: 3,
+  H: 2,
+};
+
+/** Error correction codewords per block, by level then version */
+const ECC_CODEWORDS_PER_BLOCK = [
+  [
+    -1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30,
+    28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+    30, 30, 30,
+  ],
+  [
+    -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26,
+    26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28,
+    28, 28, 28,
+  ],
+  [
+    -1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28,
+    26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+    30, 30, 30,
+  ],
+  [
+    -1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28,
+    26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+    30, 30, 30,
+  ],
+];
+
+/** Error correction blocks, by level then version */
+const NUM_ERROR_CORRECTION_BLOCKS = [
+  [
+    -1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10,
+    12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25,
+  ],
+  [
+    -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17,
+    17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49,
+  ],
+  [
+    -1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23,
+    23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68,
+  ],
+  [
+    -1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25,
+    25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77,
+    81,
+  ],
+];
+
+/**
+ * Render text as a QR code SVG image, without any network request.
+ *
+ * @param {string} text - Text to encode, such as an `otpauth://` URI.
+ * @param {QrOptions} options
+ * @returns {string} The SVG markup.
+ */
+export function createQrSvg(text: string, options: QrOptions = {}): string {
+  const {
+    errorCorrection = "M",
+    size = 256,
+    margin = 4,
+    dark = "#000000",
+    light = "#ffffff",
+  } = options;
+
+  const modules = encodeQr(text, errorCorrection);
+  const dimension = modules.length + margin * 2;
+
+  let path = "";
+  modules.forEach((row, y) =>
+    row.forEach((isDark, x) => {
+      if (isDark) path += `M${x + margin},${y + margin}h1v1h-1z`;
+    }),
+  );
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" ` +
+    `viewBox="0 0 ${dimension} ${dimension}" shape-rendering="crispEdges">` +
+    `<rect width="100%" height="100%" fill="${light}"/>` +
+    `<path d="${path}" fill="${dark}"/></svg>`
+  );
+}
+
+/**
+ * Render text as a QR code data URL, usable as the `src` of an image.
+ *
+ * @param {string} text - Text to encode, such as an `otpauth://` URI.
+ * @param {QrOptions} options
+ * @returns {string}
+ */
+export function createQrDataUrl(text: string, options: QrOptions = {}): string {
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(
+    createQrSvg(text, options),
+  )}`;
+}
+
+/**
+ * Encode text in byte mode as a QR code of the smallest fitting version.
+ *
+ * @param {string} text
+ * @param {QrErrorCorrection} ecl
+ * @returns {boolean[][]} Modules by row, true for dark.
+ */
+export function encodeQr(
+  text: string,
+  ecl: QrErrorCorrection = "M",
+): boolean[][] {
+  const bytes = new TextEncoder().encode(text);
+  const level = ECC_LEVELS.indexOf(ecl);
+
+  let version = 1;
+  for (; ; version++) {
+    if (version > 40) {
+      throw new RangeError("Text is too long to fit in a QR code");
+    }
+    const countBits = version < 10 ? 8 : 16;
+    if (
+      4 + countBits + bytes.length * 8 <=
+      getNumDataCodewords(version, level) * 8
+    ) {
+      break;
+    }
+  }
+
+  // Byte mode segment, terminator and padding
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  const capacity = getNumDataCodewords(version, level) * 8;
+  append(0b0100, 4);
+  append(bytes.length, version < 10 ? 8 : 16);
+  bytes.forEach((byte) => append(byte, 8));
+  append(0, Math.min(4, capacity - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) {
+    append(pad, 8);
+  }
+
+  const data: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    data.push(parseInt(bits.slice(i, i + 8).join(""), 2));
+  }
+
+  const qr = new QrMatrix(version, ecl);
+  qr.drawCodewords(addEccAndInterleave(data, version, level));
+
+  // Keep the mask with the lowest penalty
+  let best: boolean[][] = [];
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < 8; mask++) {
+    const modules = qr.withMask(mask);
+    const penalty = getPenalty(modules);
+    if (penalty < bestPenalty) {
+      best = modules;
+      bestPenalty = penalty;
+    }
+  }
+
+  return best;
+}
+
+class QrMatrix {
+  private size: number;
+  private modules: boolean[][];
+  private isFunction: boolean[][];
+  private version: number;
+  private ecl: QrErrorCorrection;
+
+  constructor(version: number, ecl: QrErrorCorrection) {
+    this.version = version;
+    this.ecl = ecl;
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () =>
+      Array(this.size).fill(false),
+    );
+    this.isFunction = Array.from({ length: this.size }, () =>
+      Array(this.size).fill(false),
+    );
+    this.drawFunctionPatterns();
+  }
+
+  drawCodewords(data: number[]): void {
+    let i = 0;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5;
+      for (let vert = 0; vert < this.size; vert++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? this.size - 1 - vert : vert;
+          if (!this.isFunction[y][x] && i < data.length * 8) {
+            this.modules[y][x] = ((data[i >>> 3] >>> (7 - (i & 7))) & 1) === 1;
+            i++;
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Copy of the modules with a mask and its format bits applied.
+   */
+  withMask(mask: number): boolean[][] {
+    const original = this.modules;
+    this.modules = original.map((row, y) =>
+      row.map(
+        (isDark, x) =>
+          isDark !== (!this.isFunction[y][x] && isMasked(mask, x, y)),
+      ),
+    );
+    this.drawFormatBits(mask);
+
+    const masked = this.modules;
+    this.modules = original;
+    return masked;
+  }
+
+  private drawFunctionPatterns(): void {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunctionModule(6, i, i % 2 === 0);
+      this.setFunctionModule(i, 6, i % 2 === 0);
+    }
+
+    this.drawFinderPattern(3, 3);
+    this.drawFinderPattern(this.size - 4, 3);
+    this.drawFinderPattern(3, this.size - 4);
+
+    const positions = this.getAlignmentPatternPositions();
+    const count = positions.length;
+    for (let i = 0; i < count; i++) {
+      for (let j = 0; j < count; j++) {
+        const corner =
+          (i === 0 && j === 0) ||
+          (i === 0 && j === count - 1) ||
+          (i === count - 1 && j === 0);
+        if (!corner) this.drawAlignmentPattern(positions[i], positions[j]);
+      }
+    }
+
+    // Reserve the format area, drawn with the mask
+    this.drawFormatBits(0);
+    this.drawVersion();
+  }
+
+  private drawFormatBits(mask: number): void {
+    const data = (ECC_FORMAT_BITS[this.ecl] << 3) | mask;
+    let rem = data;
+    for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+    const bits = ((data << 10) | rem) ^ 0x5412;
+
+    for (let i = 0; i <= 5; i++) this.setFunctionModule(8, i, getBit(bits, i));
+    this.setFunctionModule(8, 7, getBit(bits, 6));
+    this.setFunctionModule(8, 8, getBit(bits, 7));
+    this.setFunctionModule(7, 8, getBit(bits, 8));
+    for (let i = 9; i < 15; i++) {
+      this.setFunctionModule(14 - i, 8, getBit(bits, i));
+    }
+
+    for (let i = 0; i < 8; i++) {
+      this.setFunctionModule(this.size - 1 - i, 8, getBit(bits, i));
+    }
+    for (let i = 8; i < 15; i++) {
+      this.setFunctionModule(8, this.size - 15 + i, getBit(bits, i));
+    }
+    this.setFunctionModule(8, this.size - 8, true);
+  }
+
+  private drawVersion(): void {
+    if (this.version < 7) return;
+
+    let rem = this.version;
+    for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+    const bits = (this.version << 12) | rem;
+
+    for (let i = 0; i < 18; i++) {
+      const bit = getBit(bits, i);
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunctionModule(a, b, bit);
+      this.setFunctionModule(b, a, bit);
+    }
+  }
+
+  private drawFinderPattern(x: number, y: number): void {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        const xx = x + dx;
+        const yy = y + dy;
+        if (xx >= 0 && xx < this.size && yy >= 0 && yy < this.size) {
+          this.setFunctionModule(xx, yy, distance !== 2 && distance !== 4);
+        }
+      }
+    }
+  }
+
+  private drawAlignmentPattern(x: number, y: number): void {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        this.setFunctionModule(
+          x + dx,
+          y + dy,
+          Math.max(Math.abs(dx), Math.abs(dy)) !== 1,
+        );
+      }
+    }
+  }
+
+  private getAlignmentPatternPositions(): number[] {
+    if (this.version === 1) return [];
+
+    const count = Math.floor(this.version / 7) + 2;
+    const step =
+      Math.floor((this.version * 8 + count * 3 + 5) / (count * 4 - 4)) * 2;
+    const positions = [6];
+    for (let pos = this.size - 7; positions.length < count; pos -= step) {
+      positions.splice(1, 0, pos);
+    }
+    return positions;
+  }
+
+  private setFunctionModule(x: number, y: number, isDark: boolean): void {
+    this.modules[y][x] = isDark;
+    this.isFunction[y][x] = true;
+  }
+}
+
+function getNumRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const count = Math.floor(version / 7) + 2;
+    result -= (25 * count - 10) * count - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+function getNumDataCodewords(version: number, level: number): number {
+  return (
+    Math.floor(getNumRawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[level][version] *
+      NUM_ERROR_CORRECTION_BLOCKS[level][version]
+  );
+}
+
+function addEccAndInterleave(
+  data: number[],
+  version: number,
+  level: number,
+): number[] {
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[level][version];
+  const blockEccLength = ECC_CODEWORDS_PER_BLOCK[level][version];
+  const rawCodewords = Math.floor(getNumRawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLength = Math.floor(rawCodewords / numBlocks);
+
+  const divisor = reedSolomonDivisor(blockEccLength);
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const block = data.slice(
+      k,
+      k + shortBlockLength - blockEccLength + (i < numShortBlocks ? 0 : 1),
+    );
+    k += block.length;
+    const ecc = reedSolomonRemainder(block, divisor);
+    if (i < numShortBlocks) block.push(0);
+    blocks.push(block.concat(ecc));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      // Skip the padding byte of short blocks
+      if (i !== shortBlockLength - blockEccLength || j >= numShortBlocks) {
+        result.push(block[i]);
+      }
+    });
+  }
+  return result;
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result: number[] = Array(degree).fill(0);
+  result[degree - 1] = 1;
+
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = reedSolomonMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = reedSolomonMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result: number[] = divisor.map(() => 0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= reedSolomonMultiply(coefficient, factor);
+    });
+  }
+  return result;
+}
+
+/** Multiplication in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1 */
+function reedSolomonMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function isMasked(mask: number, x: number, y: number): boolean {
+  switch (mask) {
+    case 0:
+      return (x + y) % 2 === 0;
+    case 1:
+      return y % 2 === 0;
+    case 2:
+      return x % 3 === 0;
+    case 3:
+      return (x + y) % 3 === 0;
+    case 4:
+      return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+    case 5:
+      return ((x * y) % 2) + ((x * y) % 3) === 0;
+    case 6:
+      return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0;
+    default:
+      return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+  }
+}
+
+/**
+ * Penalty of a masked code: long runs, 2x2 blocks and dark/light imbalance.
+ */
+function getPenalty(modules: boolean[][]): number {
+  const size = modules.length;
+  let penalty = 0;
+  let dark = 0;
+
+  for (let a = 0; a < size; a++) {
+    let rowRun = 1;
+    let columnRun = 1;
+    for (let b = 1; b < size; b++) {
+      if (modules[a][b] === modules[a][b - 1]) {
+        rowRun++;
+      } else {
+        if (rowRun >= 5) penalty += rowRun - 2;
+        rowRun = 1;
+      }
+      if (modules[b][a] === modules[b - 1][a]) {
+        columnRun++;
+      } else {
+        if (columnRun >= 5) penalty += columnRun - 2;
+        columnRun = 1;
+      }
+    }
+    if (rowRun >= 5) penalty += rowRun - 2;
+    if (columnRun >= 5) penalty += columnRun - 2;
+  }
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (modules[y][x]) dark++;
+      if (
+        y < size - 1 &&
+        x < size - 1 &&
+        modules[y][x] === modules[y][x + 1] &&
+        modules[y][x] === modules[y + 1][x] &&
+        modules[y][x] === modules[y + 1][x + 1]
+      ) {
+        penalty += 3;
+      }
+    }
+  }
+
+  const total = size * size;
+  penalty += Math.floor(Math.abs(dark * 20 - total * 10) / total) * 10;
+
+  return penalty;
+}
+
+function getBit(value: number, index: number): boolean {
+  return ((value >>> index) & 1) !== 0;
+}
@@ -0,0 +1,158 @@
+import { Client } from "./client";
+import type { StorageAdapter } from "./adapters";
+import type { ClientOptions, FunctionsSchema, Schemas } from "./type";
+
+/**
+ * Attributes of a session cookie written back to the response.
+ */
+export type CookieOptions = {
+  path?: string;
+  domain?: string;
+  expires?: Date;
+  maxAge?: number;
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: "strict" | "lax" | "none";
+};
+
+/**
+ * Options of `createServerClient`.
+ */
+export type ServerClientOptions<IsSafe extends boolean> = Omit<
+  ClientOptions<IsSafe>,
+  "sessionStorage"
+> & {
+  endpoint: string;
+  project: string;
+
+  /**
+   * Reads a cookie of the incoming request.
+   */
+  getCookie: (name: string) => string | null | undefined;
+
+  /**
+   * Writes a cookie to the outgoing response.
+   * Removed cookies are written with an empty value and `maxAge: 0`.
+   */
+  setCookie?: (name: string, value: string, options: CookieOptions) => void;
+
+  /**
+   * Attributes of the written session cookies.
+   */
+  cookieOptions?: CookieOptions;
+};
+
+/**
+ * Create Server Client
+ *
+ * Creates a request-scoped client authenticated with the `a_session_<project>`
+ * cookie of the incoming request. Session cookies refreshed by the server are
+ * written back through `setCookie`. Does not depend on `window`.
+ *
+ * Create one client per request, never share it between requests.
+ *
+ * @example
+ * ```ts
+ * export async function loader({ request }) {
+ *   const cookies = parse(request.headers.get("cookie") ?? "");
+ *   const client = createServerClient({
+ *     endpoint: "https://api.nuvix.in/v1",
+ *     project: "your-project-id",
+ *     getCookie: (name) => cookies[name],
+ *     setCookie: (name, value, options) =>
+ *       headers.append("set-cookie", serialize(name, value, options)),
+ *   });
+ *   return await client.account.get();
+ * }
+ * ```
+ */
+export function createServerClient<
+  DB extends Schemas = Schemas,
+  IsSafe extends boolean = false,
+  Fns extends FunctionsSchema = FunctionsSchema,
+>({
+  endpoint,
+  project,
+  getCookie,
+  setCookie,
+  cookieOptions,
+  ...options
+}: ServerClientOptions<IsSafe>): Client<DB, IsSafe, Fns> {
+  const name = `a_session_${project}`;
+
+  const client: Client<DB, IsSafe, Fns> = new Client<DB, IsSafe, Fns>({
+    ...options,
+    sessionStorage: new ServerCookieStorage(name, getCookie, (value) => {
+      // Keep the session header in sync with the refreshed cookie
+      client.setSession(value);
+      setCookie?.(name, value, {
+        path: "/",
+        httpOnly: true,
+        secure: true,
+        sameSite: "lax",
+        ...cookieOptions,
+        ...(value ? {} : { maxAge: 0, expires: new Date(0) }),
+      });
+    }),
+  });
+
+  client.setEndpoint(endpoint).setProject(project);
+
+  const session = getCookie(name);
+  if (session) {
+    client.setSession(session);
+  }
+
+  return client;
+}
+
+/**
+ * Bridges the `cookieFallback` storage of the client with the request and
+ * response cookies of the framework.
+ */
+class ServerCookieStorage implements StorageAdapter {
+  private name: string;
+  private session: string;
+  private onChange: (value: string) => void;
+
+  constructor(
+    name: string,
+    getCookie: (name: string) => string | null | undefined,
+    onChange: (value: string) => void,
+  ) {
+    this.name = name;
+    this.session = getCookie(name) ?? "";
+    this.onChange = onChange;
+  }
+
+  getItem(key: string): string | null {
+    if (key !== "cookieFallback" || !this.session) return null;
+    return JSON.stringify({ [this.name]: this.session });
+  }
+
+  setItem(key: string, value: string): void {
+    if (key !== "cookieFallback") return;
+
+    let cookies: Record<string, string> = {};
+    try {
+      cookies = JSON.parse(value) ?? {};
+    } catch {
+      return;
+    }
+
+    if (!(this.name in cookies)) return;
+
+    const session = cookies[this.name] ?? "";
+    if (session !== this.session) {
+      this.session = session;
+      this.onChange(session);
+    }
+  }
+
+  removeItem(key: string): void {
+    if (key === "cookieFallback" && this.session) {
+      this.session = "";
+      this.onChange("");
+    }
+  }
+}
@@ -4,8 +4,10 @@ import type { Payload } from "./base-client";
 export class Service {
   /**
    * The size for chunked uploads in bytes.
+   *
+   * @deprecated Use `BaseClient.CHUNK_SIZE` or the `upload` client options.
    */
-  static CHUNK_SIZE = 5 * 1024 * 1024; // 5MB
+  static CHUNK_SIZE = BaseClient.CHUNK_SIZE;
 
   client: BaseClient;
 
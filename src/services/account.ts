@@ -4,7 +4,8 @@ import type { Models } from "../models";
 import { AuthenticatorType } from "../enums/authenticator-type";
 import { AuthenticationFactor } from "../enums/authentication-factor";
 import { OAuthProvider } from "../enums/o-auth-provider";
-import { PromiseResponseType, ResponseType } from "../type";
+import { PromiseResponseType, RequestOptions, ResponseType } from "../type";
+import { Paginator, type PaginateOptions } from "../paginate";
 
 export class Account<T extends BaseClient> {
   client: T;
@@ -18,12 +19,12 @@ export class Account<T extends BaseClient> {
    *
    * Get the currently logged in user.
    *
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Models.User<Preferences>>}
    */
-  async get<Preferences extends Models.Preferences>(): PromiseResponseType<
-    T,
-    Models.User<Preferences>
-  > {
+  async get<Preferences extends Models.Preferences>(
+    options?: RequestOptions,
+  ): PromiseResponseType<T, Models.User<Preferences>> {
     return this.client.withSafeResponse(async () => {
       const apiPath = "/account";
       const payload: Payload = {};
@@ -33,7 +34,14 @@ export class Account<T extends BaseClient> {
         "content-type": "application/json",
       };
 
-      return await this.client.call("get", uri, apiHeaders, payload);
+      return await this.client.call(
+        "get",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -45,6 +53,7 @@ export class Account<T extends BaseClient> {
    * @param {string} email
    * @param {string} password
    * @param {string} name
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Models.User<Preferences>>}
    */
   async create<Preferences extends Models.Preferences>(
@@ -52,6 +61,7 @@ export class Account<T extends BaseClient> {
     email: string,
     password: string,
     name?: string,
+    options?: RequestOptions,
   ): PromiseResponseType<T, Models.User<Preferences>> {
     return this.client.withSafeResponse(async () => {
       if (typeof userId === "undefined") {
@@ -83,7 +93,14 @@ export class Account<T extends BaseClient> {
         "content-type": "application/json",
       };
 
-      return await this.client.call("post", uri, apiHeaders, payload);
+      return await this.client.call(
+        "post",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -95,11 +112,13 @@ This endpoint can also be used to convert an anonymous account to a normal one,
      *
      * @param {string} email
      * @param {string} password
+     * @param {RequestOptions} options
      * @returns {PromiseResponseType<T, Models.User<Preferences>>}
      */
   async updateEmail<Preferences extends Models.Preferences>(
     email: string,
     password: string,
+    options?: RequestOptions,
   ): PromiseResponseType<T, Models.User<Preferences>> {
     return this.client.withSafeResponse(async () => {
       if (typeof email === "undefined") {
@@ -122,7 +141,14 @@ This endpoint can also be used to convert an anonymous account to a normal one,
         "content-type": "application/json",
       };
 
-      return await this.client.call("patch", uri, apiHeaders, payload);
+      return await this.client.call(
+        "patch",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -131,10 +157,12 @@ This endpoint can also be used to convert an anonymous account to a normal one,
    * Get the list of identities for the currently logged in user.
    *
    * @param {string[]} queries
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Models.IdentityList>}
    */
   async listIdentities(
     queries?: string[],
+    options?: RequestOptions,
   ): PromiseResponseType<T, Models.IdentityList> {
     return this.client.withSafeResponse(async () => {
       const apiPath = "/account/identities";
@@ -148,7 +176,14 @@ This endpoint can also be used to convert an anonymous account to a normal one,
         "content-type": "application/json",
       };
 
-      return await this.client.call("get", uri, apiHeaders, payload);
+      return await this.client.call(
+        "get",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -157,9 +192,13 @@ This endpoint can also be used to convert an anonymous account to a normal one,
    * Delete an identity by its unique ID.
    *
    * @param {string} identityId
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, {}>}
    */
-  async deleteIdentity(identityId: string): PromiseResponseType<T, {}> {
+  async deleteIdentity(
+    identityId: string,
+    options?: RequestOptions,
+  ): PromiseResponseType<T, {}> {
     return this.client.withSafeResponse(async () => {
       if (typeof identityId === "undefined") {
         throw new NuvixException('Missing required parameter: "identityId"');
@@ -175,7 +214,14 @@ This endpoint can also be used to convert an anonymous account to a normal one,
         "content-type": "application/json",
       };
 
-      return await this.client.call("delete", uri, apiHeaders, payload);
+      return await this.client.call(
+        "delete",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -183,9 +229,12 @@ This endpoint can also be used to convert an anonymous account to a normal one,
    *
    * Use this endpoint to create a JSON Web Token. You can use the resulting JWT to authenticate on behalf of the current user when working with the Nuvix server-side API and SDKs. The JWT secret is valid for 15 minutes from its creation and will be invalid if the user will logout in that time frame.
    *
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Models.Jwt>}
    */
-  async createJWT(): PromiseResponseType<T, Models.Jwt> {
+  async createJWT(
+    options?: RequestOptions,
+  ): PromiseResponseType<T, Models.Jwt> {
     return this.client.withSafeResponse(async () => {
       const apiPath = "/account/jwts";
       const payload: Payload = {};
@@ -195,7 +244,14 @@ This endpoint can also be used to convert an anonymous account to a normal one,
         "content-type": "application/json",
       };
 
-      return await this.client.call("post", uri, apiHeaders, payload);
+      return await this.client.call(
+        "post",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -204,9 +260,13 @@ This endpoint can also be used to convert an anonymous account to a normal one,
    * Get the list of latest security activity logs for the currently logged in user. Each log returns user IP address, location and date and time of log.
    *
    * @param {string[]} queries
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Models.LogList>}
    */
-  async listLogs(queries?: string[]): PromiseResponseType<T, Models.LogList> {
+  async listLogs(
+    queries?: string[],
+    options?: RequestOptions,
+  ): PromiseResponseType<T, Models.LogList> {
     return this.client.withSafeResponse(async () => {
       const apiPath = "/account/logs";
       const payload: Payload = {};
@@ -219,19 +279,47 @@ This endpoint can also be used to convert an anonymous account to a normal one,
         "content-type": "application/json",
       };
 
-      return await this.client.call("get", uri, apiHeaders, payload);
+      return await this.client.call(
+        "get",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
+  /**
+   * Paginate logs
+   *
+   * Iterate over all the security activity logs of the currently logged in user, page by page.
+   *
+   * @param {string[]} queries
+   * @param {PaginateOptions} options
+   * @returns {Paginator<Models.Log>}
+   */
+  paginateLogs(
+    queries?: string[],
+    options?: PaginateOptions,
+  ): Paginator<Models.Log> {
+    return new Paginator(
+      (queries, options) => this.listLogs(queries, options),
+      queries,
+      options,
+    );
+  }
   /**
    * Update MFA
    *
    * Enable or disable MFA on an account.
    *
    * @param {boolean} mfa
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Models.User<Preferences>>}
    */
   async updateMFA<Preferences extends Models.Preferences>(
     mfa: boolean,
+    options?: RequestOptions,
   ): PromiseResponseType<T, Models.User<Preferences>> {
     return this.client.withSafeResponse(async () => {
       if (typeof mfa === "undefined") {
@@ -248,7 +336,14 @@ This endpoint can also be used to convert an anonymous account to a normal one,
         "content-type": "application/json",
       };
 
-      return await this.client.call("patch", uri, apiHeaders, payload);
+      return await this.client.call(
+        "patch",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -257,10 +352,12 @@ This endpoint can also be used to convert an anonymous account to a normal one,
    * Add an authenticator app to be used as an MFA factor. Verify the authenticator using the [verify authenticator](/docs/references/cloud/client-web/account#updateMfaAuthenticator) method.
    *
    * @param {AuthenticatorType} type
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Models.MfaType>}
    */
   async createMfaAuthenticator(
     type: AuthenticatorType,
+    options?: RequestOptions,
   ): PromiseResponseType<T, Models.MfaType> {
     return this.client.withSafeResponse(async () => {
       if (typeof type === "undefined") {
@@ -277,7 +374,14 @@ This endpoint can also be used to convert an anonymous account to a normal one,
         "content-type": "application/json",
       };
 
-      return await this.client.call("post", uri, apiHeaders, payload);
+      return await this.client.call(
+        "post",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -287,11 +391,13 @@ This endpoint can also be used to convert an anonymous account to a normal one,
    *
    * @param {AuthenticatorType} type
    * @param {string} otp
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Models.User<Preferences>>}
    */
   async updateMfaAuthenticator<Preferences extends Models.Preferences>(
     type: AuthenticatorType,
     otp: string,
+    options?: RequestOptions,
   ): PromiseResponseType<T, Models.User<Preferences>> {
     return this.client.withSafeResponse(async () => {
       if (typeof type === "undefined") {
@@ -314,7 +420,14 @@ This endpoint can also be used to convert an anonymous account to a normal one,
         "content-type": "application/json",
       };
 
-      return await this.client.call("put", uri, apiHeaders, payload);
+      return await this.client.call(
+        "put",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -323,10 +436,12 @@ This endpoint can also be used to convert an anonymous account to a normal one,
    * Delete an authenticator for a user by ID.
    *
    * @param {AuthenticatorType} type
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, {}>}
    */
   async deleteMfaAuthenticator(
     type: AuthenticatorType,
+    options?: RequestOptions,
   ): PromiseResponseType<T, {}> {
     return this.client.withSafeResponse(async () => {
       if (typeof type === "undefined") {
@@ -343,7 +458,14 @@ This endpoint can also be used to convert an anonymous account to a normal one,
         "content-type": "application/json",
       };
 
-      return await this.client.call("delete", uri, apiHeaders, payload);
+      return await this.client.call(
+        "delete",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -352,10 +474,12 @@ This endpoint can also be used to convert an anonymous account to a normal one,
    * Begin the process of MFA verification after sign-in. Finish the flow with [updateMfaChallenge](/docs/references/cloud/client-web/account#updateMfaChallenge) method.
    *
    * @param {AuthenticationFactor} factor
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Models.MfaChallenge>}
    */
   async createMfaChallenge(
     factor: AuthenticationFactor,
+    options?: RequestOptions,
   ): PromiseResponseType<T, Models.MfaChallenge> {
     return this.client.withSafeResponse(async () => {
       if (typeof factor === "undefined") {
@@ -372,7 +496,14 @@ This endpoint can also be used to convert an anonymous account to a normal one,
         "content-type": "application/json",
       };
 
-      return await this.client.call("post", uri, apiHeaders, payload);
+      return await this.client.call(
+        "post",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -382,11 +513,13 @@ This endpoint can also be used to convert an anonymous account to a normal one,
    *
    * @param {string} challengeId
    * @param {string} otp
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Models.Session>}
    */
   async updateMfaChallenge(
     challengeId: string,
     otp: string,
+    options?: RequestOptions,
   ): PromiseResponseType<T, Models.Session> {
     return this.client.withSafeResponse(async () => {
       if (typeof challengeId === "undefined") {
@@ -409,7 +542,14 @@ This endpoint can also be used to convert an anonymous account to a normal one,
         "content-type": "application/json",
       };
 
-      return await this.client.call("put", uri, apiHeaders, payload);
+      return await this.client.call(
+        "put",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -417,9 +557,12 @@ This endpoint can also be used to convert an anonymous account to a normal one,
    *
    * List the factors available on the account to be used as a MFA challange.
    *
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Models.MfaFactors>}
    */
-  async listMfaFactors(): PromiseResponseType<T, Models.MfaFactors> {
+  async listMfaFactors(
+    options?: RequestOptions,
+  ): PromiseResponseType<T, Models.MfaFactors> {
     return this.client.withSafeResponse(async () => {
       const apiPath = "/account/mfa/factors";
       const payload: Payload = {};
@@ -429,7 +572,14 @@ This endpoint can also be used to convert an anonymous account to a normal one,
         "content-type": "application/json",
       };
 
-      return await this.client.call("get", uri, apiHeaders, payload);
+      return await this.client.call(
+        "get",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -437,9 +587,12 @@ This endpoint can also be used to convert an anonymous account to a normal one,
    *
    * Get recovery codes that can be used as backup for MFA flow. Before getting codes, they must be generated using [createMfaRecoveryCodes](/docs/references/cloud/client-web/account#createMfaRecoveryCodes) method. An OTP challenge is required to read recovery codes.
    *
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Models.MfaRecoveryCodes>}
    */
-  async getMfaRecoveryCodes(): PromiseResponseType<T, Models.MfaRecoveryCodes> {
+  async getMfaRecoveryCodes(
+    options?: RequestOptions,
+  ): PromiseResponseType<T, Models.MfaRecoveryCodes> {
     return this.client.withSafeResponse(async () => {
       const apiPath = "/account/mfa/recovery-codes";
       const payload: Payload = {};
@@ -449,7 +602,14 @@ This endpoint can also be used to convert an anonymous account to a normal one,
         "content-type": "application/json",
       };
 
-      return await this.client.call("get", uri, apiHeaders, payload);
+      return await this.client.call(
+        "get",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -457,12 +617,12 @@ This endpoint can also be used to convert an anonymous account to a normal one,
    *
    * Generate recovery codes as backup for MFA flow. It&#039;s recommended to generate and show then immediately after user successfully adds their authehticator. Recovery codes can be used as a MFA verification type in [createMfaChallenge](/docs/references/cloud/client-web/account#createMfaChallenge) method.
    *
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Models.MfaRecoveryCodes>}
    */
-  async createMfaRecoveryCodes(): PromiseResponseType<
-    T,
-    Models.MfaRecoveryCodes
-  > {
+  async createMfaRecoveryCodes(
+    options?: RequestOptions,
+  ): PromiseResponseType<T, Models.MfaRecoveryCodes> {
     return this.client.withSafeResponse(async () => {
       const apiPath = "/account/mfa/recovery-codes";
       const payload: Payload = {};
@@ -472,7 +632,14 @@ This endpoint can also be used to convert an anonymous account to a normal one,
         "content-type": "application/json",
       };
 
-      return await this.client.call("post", uri, apiHeaders, payload);
+      return await this.client.call(
+        "post",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -480,12 +647,12 @@ This endpoint can also be used to convert an anonymous account to a normal one,
    *
    * Regenerate recovery codes that can be used as backup for MFA flow. Before regenerating codes, they must be first generated using [createMfaRecoveryCodes](/docs/references/cloud/client-web/account#createMfaRecoveryCodes) method. An OTP challenge is required to regenreate recovery codes.
    *
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Models.MfaRecoveryCodes>}
    */
-  async updateMfaRecoveryCodes(): PromiseResponseType<
-    T,
-    Models.MfaRecoveryCodes
-  > {
+  async updateMfaRecoveryCodes(
+    options?: RequestOptions,
+  ): PromiseResponseType<T, Models.MfaRecoveryCodes> {
     return this.client.withSafeResponse(async () => {
       const apiPath = "/account/mfa/recovery-codes";
       const payload: Payload = {};
@@ -495,7 +662,14 @@ This endpoint can also be used to convert an anonymous account to a normal one,
         "content-type": "application/json",
       };
 
-      return await this.client.call("patch", uri, apiHeaders, payload);
+      return await this.client.call(
+        "patch",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -504,10 +678,12 @@ This endpoint can also be used to convert an anonymous account to a normal one,
    * Update currently logged in user account name.
    *
    * @param {string} name
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Models.User<Preferences>>}
    */
   async updateName<Preferences extends Models.Preferences>(
     name: string,
+    options?: RequestOptions,
   ): PromiseResponseType<T, Models.User<Preferences>> {
     return this.client.withSafeResponse(async () => {
       if (typeof name === "undefined") {
@@ -524,7 +700,14 @@ This endpoint can also be used to convert an anonymous account to a normal one,
         "content-type": "application/json",
       };
 
-      return await this.client.call("patch", uri, apiHeaders, payload);
+      return await this.client.call(
+        "patch",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -534,11 +717,13 @@ This endpoint can also be used to convert an anonymous account to a normal one,
    *
    * @param {string} password
    * @param {string} oldPassword
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Models.User<Preferences>>}
    */
   async updatePassword<Preferences extends Models.Preferences>(
     password: string,
     oldPassword?: string,
+    options?: RequestOptions,
   ): PromiseResponseType<T, Models.User<Preferences>> {
     return this.client.withSafeResponse(async () => {
       if (typeof password === "undefined") {
@@ -558,7 +743,14 @@ This endpoint can also be used to convert an anonymous account to a normal one,
         "content-type": "application/json",
       };
 
-      return await this.client.call("patch", uri, apiHeaders, payload);
+      return await this.client.call(
+        "patch",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -568,11 +760,13 @@ This endpoint can also be used to convert an anonymous account to a normal one,
    *
    * @param {string} phone
    * @param {string} password
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Models.User<Preferences>>}
    */
   async updatePhone<Preferences extends Models.Preferences>(
     phone: string,
     password: string,
+    options?: RequestOptions,
   ): PromiseResponseType<T, Models.User<Preferences>> {
     return this.client.withSafeResponse(async () => {
       if (typeof phone === "undefined") {
@@ -595,7 +789,14 @@ This endpoint can also be used to convert an anonymous account to a normal one,
         "content-type": "application/json",
       };
 
-      return await this.client.call("patch", uri, apiHeaders, payload);
+      return await this.client.call(
+        "patch",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -603,12 +804,12 @@ This endpoint can also be used to convert an anonymous account to a normal one,
    *
    * Get the preferences as a key-value object for the currently logged in user.
    *
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Preferences>}
    */
-  async getPrefs<Preferences extends Models.Preferences>(): PromiseResponseType<
-    T,
-    Preferences
-  > {
+  async getPrefs<Preferences extends Models.Preferences>(
+    options?: RequestOptions,
+  ): PromiseResponseType<T, Preferences> {
     return this.client.withSafeResponse(async () => {
       const apiPath = "/account/prefs";
       const payload: Payload = {};
@@ -618,7 +819,14 @@ This endpoint can also be used to convert an anonymous account to a normal one,
         "content-type": "application/json",
       };
 
-      return await this.client.call("get", uri, apiHeaders, payload);
+      return await this.client.call(
+        "get",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -627,10 +835,12 @@ This endpoint can also be used to convert an anonymous account to a normal one,
    * Update currently logged in user account preferences. The object you pass is stored as is, and replaces any previous value. The maximum allowed prefs size is 64kB and throws error if exceeded.
    *
    * @param {Partial<Preferences>} prefs
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Models.User<Preferences>>}
    */
   async updatePrefs<Preferences extends Models.Preferences>(
     prefs: Partial<Preferences>,
+    options?: RequestOptions,
   ): PromiseResponseType<T, Models.User<Preferences>> {
     return this.client.withSafeResponse(async () => {
       if (typeof prefs === "undefined") {
@@ -647,7 +857,14 @@ This endpoint can also be used to convert an anonymous account to a normal one,
         "content-type": "application/json",
       };
 
-      return await this.client.call("patch", uri, apiHeaders, payload);
+      return await this.client.call(
+        "patch",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -657,11 +874,13 @@ This endpoint can also be used to convert an anonymous account to a normal one,
    *
    * @param {string} email
    * @param {string} url
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Models.Token>}
    */
   async createRecovery(
     email: string,
     url: string,
+    options?: RequestOptions,
   ): PromiseResponseType<T, Models.Token> {
     return this.client.withSafeResponse(async () => {
       if (typeof email === "undefined") {
@@ -684,7 +903,14 @@ This endpoint can also be used to convert an anonymous account to a normal one,
         "content-type": "application/json",
       };
 
-      return await this.client.call("post", uri, apiHeaders, payload);
+      return await this.client.call(
+        "post",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -697,12 +923,14 @@ Please note that in order to avoid a [Redirect Attack](https://github.com/OWASP/
      * @param {string} userId
      * @param {string} secret
      * @param {string} password
+     * @param {RequestOptions} options
      * @returns {PromiseResponseType<T, Models.Token>}
      */
   async updateRecovery(
     userId: string,
     secret: string,
     password: string,
+    options?: RequestOptions,
   ): PromiseResponseType<T, Models.Token> {
     return this.client.withSafeResponse(async () => {
       if (typeof userId === "undefined") {
@@ -731,7 +959,14 @@ Please note that in order to avoid a [Redirect Attack](https://github.com/OWASP/
         "content-type": "application/json",
       };
 
-      return await this.client.call("put", uri, apiHeaders, payload);
+      return await this.client.call(
+        "put",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -739,9 +974,12 @@ Please note that in order to avoid a [Redirect Attack](https://github.com/OWASP/
    *
    * Get the list of active sessions across different devices for the currently logged in user.
    *
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Models.SessionList>}
    */
-  async listSessions(): PromiseResponseType<T, Models.SessionList> {
+  async listSessions(
+    options?: RequestOptions,
+  ): PromiseResponseType<T, Models.SessionList> {
     return this.client.withSafeResponse(async () => {
       const apiPath = "/account/sessions";
       const payload: Payload = {};
@@ -751,7 +989,14 @@ Please note that in order to avoid a [Redirect Attack](https://github.com/OWASP/
         "content-type": "application/json",
       };
 
-      return await this.client.call("get", uri, apiHeaders, payload);
+      return await this.client.call(
+        "get",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -759,9 +1004,10 @@ Please note that in order to avoid a [Redirect Attack](https://github.com/OWASP/
    *
    * Delete all sessions from the user account and remove any sessions cookies from the end client.
    *
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, {}>}
    */
-  async deleteSessions(): PromiseResponseType<T, {}> {
+  async deleteSessions(options?: RequestOptions): PromiseResponseType<T, {}> {
     return this.client.withSafeResponse(async () => {
       const apiPath = "/account/sessions";
       const payload: Payload = {};
@@ -771,7 +1017,14 @@ Please note that in order to avoid a [Redirect Attack](https://github.com/OWASP/
         "content-type": "application/json",
       };
 
-      return await this.client.call("delete", uri, apiHeaders, payload);
+      return await this.client.call(
+        "delete",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -779,9 +1032,12 @@ Please note that in order to avoid a [Redirect Attack](https://github.com/OWASP/
    *
    * Use this endpoint to allow a new user to register an anonymous account in your project. This route will also create a new session for the user. To allow the new user to convert an anonymous account to a normal account, you need to update its [email and password](https://nuvix.io/docs/references/cloud/client-web/account#updateEmail) or create an [OAuth2 session](https://nuvix.io/docs/references/cloud/client-web/account#CreateOAuth2Session).
    *
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Models.Session>}
    */
-  async createAnonymousSession(): PromiseResponseType<T, Models.Session> {
+  async createAnonymousSession(
+    options?: RequestOptions,
+  ): PromiseResponseType<T, Models.Session> {
     return this.client.withSafeResponse(async () => {
       const apiPath = "/account/sessions/anonymous";
       const payload: Payload = {};
@@ -791,7 +1047,14 @@ Please note that in order to avoid a [Redirect Attack](https://github.com/OWASP/
         "content-type": "application/json",
       };
 
-      return await this.client.call("post", uri, apiHeaders, payload);
+      return await this.client.call(
+        "post",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -803,11 +1066,13 @@ A user is limited to 10 active sessions at a time by default. [Learn more about
      *
      * @param {string} email
      * @param {string} password
+     * @param {RequestOptions} options
      * @returns {PromiseResponseType<T, Models.Session>}
      */
   async createEmailPasswordSession(
     email: string,
     password: string,
+    options?: RequestOptions,
   ): PromiseResponseType<T, Models.Session> {
     return this.client.withSafeResponse(async () => {
       if (typeof email === "undefined") {
@@ -830,7 +1095,14 @@ A user is limited to 10 active sessions at a time by default. [Learn more about
         "content-type": "application/json",
       };
 
-      return await this.client.call("post", uri, apiHeaders, payload);
+      return await this.client.call(
+        "post",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -840,11 +1112,13 @@ A user is limited to 10 active sessions at a time by default. [Learn more about
    *
    * @param {string} userId
    * @param {string} secret
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Models.Session>}
    */
   async updateMagicURLSession(
     userId: string,
     secret: string,
+    options?: RequestOptions,
   ): PromiseResponseType<T, Models.Session> {
     return this.client.withSafeResponse(async () => {
       if (typeof userId === "undefined") {
@@ -867,7 +1141,14 @@ A user is limited to 10 active sessions at a time by default. [Learn more about
         "content-type": "application/json",
       };
 
-      return await this.client.call("put", uri, apiHeaders, payload);
+      return await this.client.call(
+        "put",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -936,11 +1217,13 @@ A user is limited to 10 active sessions at a time by default. [Learn more about
    *
    * @param {string} userId
    * @param {string} secret
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Models.Session>}
    */
   async updatePhoneSession(
     userId: string,
     secret: string,
+    options?: RequestOptions,
   ): PromiseResponseType<T, Models.Session> {
     return this.client.withSafeResponse(async () => {
       if (typeof userId === "undefined") {
@@ -963,7 +1246,14 @@ A user is limited to 10 active sessions at a time by default. [Learn more about
         "content-type": "application/json",
       };
 
-      return await this.client.call("put", uri, apiHeaders, payload);
+      return await this.client.call(
+        "put",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -973,11 +1263,13 @@ A user is limited to 10 active sessions at a time by default. [Learn more about
    *
    * @param {string} userId
    * @param {string} secret
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Models.Session>}
    */
   async createSession(
     userId: string,
     secret: string,
+    options?: RequestOptions,
   ): PromiseResponseType<T, Models.Session> {
     return this.client.withSafeResponse(async () => {
       if (typeof userId === "undefined") {
@@ -1000,7 +1292,14 @@ A user is limited to 10 active sessions at a time by default. [Learn more about
         "content-type": "application/json",
       };
 
-      return await this.client.call("post", uri, apiHeaders, payload);
+      return await this.client.call(
+        "post",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -1009,9 +1308,13 @@ A user is limited to 10 active sessions at a time by default. [Learn more about
    * Use this endpoint to get a logged in user&#039;s session using a Session ID. Inputting &#039;current&#039; will return the current session being used.
    *
    * @param {string} sessionId
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Models.Session>}
    */
-  async getSession(sessionId: string): PromiseResponseType<T, Models.Session> {
+  async getSession(
+    sessionId: string,
+    options?: RequestOptions,
+  ): PromiseResponseType<T, Models.Session> {
     return this.client.withSafeResponse(async () => {
       if (typeof sessionId === "undefined") {
         throw new NuvixException('Missing required parameter: "sessionId"');
@@ -1027,7 +1330,14 @@ A user is limited to 10 active sessions at a time by default. [Learn more about
         "content-type": "application/json",
       };
 
-      return await this.client.call("get", uri, apiHeaders, payload);
+      return await this.client.call(
+        "get",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -1036,10 +1346,12 @@ A user is limited to 10 active sessions at a time by default. [Learn more about
    * Use this endpoint to extend a session&#039;s length. Extending a session is useful when session expiry is short. If the session was created using an OAuth provider, this endpoint refreshes the access token from the provider.
    *
    * @param {string} sessionId
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Models.Session>}
    */
   async updateSession(
     sessionId: string,
+    options?: RequestOptions,
   ): PromiseResponseType<T, Models.Session> {
     return this.client.withSafeResponse(async () => {
       if (typeof sessionId === "undefined") {
@@ -1056,7 +1368,14 @@ A user is limited to 10 active sessions at a time by default. [Learn more about
         "content-type": "application/json",
       };
 
-      return await this.client.call("patch", uri, apiHeaders, payload);
+      return await this.client.call(
+        "patch",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -1065,9 +1384,13 @@ A user is limited to 10 active sessions at a time by default. [Learn more about
    * Logout the user. Use &#039;current&#039; as the session ID to logout on this device, use a session ID to logout on another device. If you&#039;re looking to logout the user on all devices, use [Delete Sessions](https://nuvix.io/docs/references/cloud/client-web/account#deleteSessions) instead.
    *
    * @param {string} sessionId
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, {}>}
    */
-  async deleteSession(sessionId: string): PromiseResponseType<T, {}> {
+  async deleteSession(
+    sessionId: string,
+    options?: RequestOptions,
+  ): PromiseResponseType<T, {}> {
     return this.client.withSafeResponse(async () => {
       if (typeof sessionId === "undefined") {
         throw new NuvixException('Missing required parameter: "sessionId"');
@@ -1083,7 +1406,14 @@ A user is limited to 10 active sessions at a time by default. [Learn more about
         "content-type": "application/json",
       };
 
-      return await this.client.call("delete", uri, apiHeaders, payload);
+      return await this.client.call(
+        "delete",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -1091,11 +1421,12 @@ A user is limited to 10 active sessions at a time by default. [Learn more about
    *
    * Block the currently logged in user account. Behind the scene, the user record is not deleted but permanently blocked from any access. To completely delete a user, use the Users API instead.
    *
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Models.User<Preferences>>}
    */
-  async updateStatus<
-    Preferences extends Models.Preferences,
-  >(): PromiseResponseType<T, Models.User<Preferences>> {
+  async updateStatus<Preferences extends Models.Preferences>(
+    options?: RequestOptions,
+  ): PromiseResponseType<T, Models.User<Preferences>> {
     return this.client.withSafeResponse(async () => {
       const apiPath = "/account/status";
       const payload: Payload = {};
@@ -1105,7 +1436,14 @@ A user is limited to 10 active sessions at a time by default. [Learn more about
         "content-type": "application/json",
       };
 
-      return await this.client.call("patch", uri, apiHeaders, payload);
+      return await this.client.call(
+        "patch",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -1116,12 +1454,14 @@ A user is limited to 10 active sessions at a time by default. [Learn more about
    * @param {string} targetId
    * @param {string} identifier
    * @param {string} providerId
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Models.Target>}
    */
   async createPushTarget(
     targetId: string,
     identifier: string,
     providerId?: string,
+    options?: RequestOptions,
   ): PromiseResponseType<T, Models.Target> {
     return this.client.withSafeResponse(async () => {
       if (typeof targetId === "undefined") {
@@ -1147,7 +1487,14 @@ A user is limited to 10 active sessions at a time by default. [Learn more about
         "content-type": "application/json",
       };
 
-      return await this.client.call("post", uri, apiHeaders, payload);
+      return await this.client.call(
+        "post",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -1157,11 +1504,13 @@ A user is limited to 10 active sessions at a time by default. [Learn more about
    *
    * @param {string} targetId
    * @param {string} identifier
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Models.Target>}
    */
   async updatePushTarget(
     targetId: string,
     identifier: string,
+    options?: RequestOptions,
   ): PromiseResponseType<T, Models.Target> {
     return this.client.withSafeResponse(async () => {
       if (typeof targetId === "undefined") {
@@ -1184,7 +1533,14 @@ A user is limited to 10 active sessions at a time by default. [Learn more about
         "content-type": "application/json",
       };
 
-      return await this.client.call("put", uri, apiHeaders, payload);
+      return await this.client.call(
+        "put",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -1193,9 +1549,13 @@ A user is limited to 10 active sessions at a time by default. [Learn more about
    * Delete a push notification target for the currently logged in user. After deletion, the device will no longer receive push notifications. The target must exist and belong to the current user.
    *
    * @param {string} targetId
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, {}>}
    */
-  async deletePushTarget(targetId: string): PromiseResponseType<T, {}> {
+  async deletePushTarget(
+    targetId: string,
+    options?: RequestOptions,
+  ): PromiseResponseType<T, {}> {
     return this.client.withSafeResponse(async () => {
       if (typeof targetId === "undefined") {
         throw new NuvixException('Missing required parameter: "targetId"');
@@ -1211,7 +1571,14 @@ A user is limited to 10 active sessions at a time by default. [Learn more about
         "content-type": "application/json",
       };
 
-      return await this.client.call("delete", uri, apiHeaders, payload);
+      return await this.client.call(
+        "delete",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -1224,12 +1591,14 @@ A user is limited to 10 active sessions at a time by default. [Learn more about
      * @param {string} userId
      * @param {string} email
      * @param {boolean} phrase
+     * @param {RequestOptions} options
      * @returns {PromiseResponseType<T, Models.Token>}
      */
   async createEmailToken(
     userId: string,
     email: string,
     phrase?: boolean,
+    options?: RequestOptions,
   ): PromiseResponseType<T, Models.Token> {
     return this.client.withSafeResponse(async () => {
       if (typeof userId === "undefined") {
@@ -1255,7 +1624,14 @@ A user is limited to 10 active sessions at a time by default. [Learn more about
         "content-type": "application/json",
       };
 
-      return await this.client.call("post", uri, apiHeaders, payload);
+      return await this.client.call(
+        "post",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -1270,6 +1646,7 @@ A user is limited to 10 active sessions at a time by default. [Learn more about
      * @param {string} email
      * @param {string} url
      * @param {boolean} phrase
+     * @param {RequestOptions} options
      * @returns {PromiseResponseType<T, Models.Token>}
      */
   async createMagicURLToken(
@@ -1277,6 +1654,7 @@ A user is limited to 10 active sessions at a time by default. [Learn more about
     email: string,
     url?: string,
     phrase?: boolean,
+    options?: RequestOptions,
   ): PromiseResponseType<T, Models.Token> {
     return this.client.withSafeResponse(async () => {
       if (typeof userId === "undefined") {
@@ -1305,7 +1683,14 @@ A user is limited to 10 active sessions at a time by default. [Learn more about
         "content-type": "application/json",
       };
 
-      return await this.client.call("post", uri, apiHeaders, payload);
+      return await this.client.call(
+        "post",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -1374,11 +1759,13 @@ A user is limited to 10 active sessions at a time by default. [Learn more about
    *
    * @param {string} userId
    * @param {string} phone
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Models.Token>}
    */
   async createPhoneToken(
     userId: string,
     phone: string,
+    options?: RequestOptions,
   ): PromiseResponseType<T, Models.Token> {
     return this.client.withSafeResponse(async () => {
       if (typeof userId === "undefined") {
@@ -1401,7 +1788,14 @@ A user is limited to 10 active sessions at a time by default. [Learn more about
         "content-type": "application/json",
       };
 
-      return await this.client.call("post", uri, apiHeaders, payload);
+      return await this.client.call(
+        "post",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -1413,9 +1807,13 @@ Please note that in order to avoid a [Redirect Attack](https://github.com/OWASP/
 
      *
      * @param {string} url
+     * @param {RequestOptions} options
      * @returns {PromiseResponseType<T, Models.Token>}
      */
-  async createVerification(url: string): PromiseResponseType<T, Models.Token> {
+  async createVerification(
+    url: string,
+    options?: RequestOptions,
+  ): PromiseResponseType<T, Models.Token> {
     return this.client.withSafeResponse(async () => {
       if (typeof url === "undefined") {
         throw new NuvixException('Missing required parameter: "url"');
@@ -1431,7 +1829,14 @@ Please note that in order to avoid a [Redirect Attack](https://github.com/OWASP/
         "content-type": "application/json",
       };
 
-      return await this.client.call("post", uri, apiHeaders, payload);
+      return await this.client.call(
+        "post",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -1441,11 +1846,13 @@ Please note that in order to avoid a [Redirect Attack](https://github.com/OWASP/
    *
    * @param {string} userId
    * @param {string} secret
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Models.Token>}
    */
   async updateVerification(
     userId: string,
     secret: string,
+    options?: RequestOptions,
   ): PromiseResponseType<T, Models.Token> {
     return this.client.withSafeResponse(async () => {
       if (typeof userId === "undefined") {
@@ -1468,7 +1875,14 @@ Please note that in order to avoid a [Redirect Attack](https://github.com/OWASP/
         "content-type": "application/json",
       };
 
-      return await this.client.call("put", uri, apiHeaders, payload);
+      return await this.client.call(
+        "put",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -1476,9 +1890,12 @@ Please note that in order to avoid a [Redirect Attack](https://github.com/OWASP/
    *
    * Use this endpoint to send a verification SMS to the currently logged in user. This endpoint is meant for use after updating a user&#039;s phone number using the [accountUpdatePhone](https://nuvix.io/docs/references/cloud/client-web/account#updatePhone) endpoint. Learn more about how to [complete the verification process](https://nuvix.io/docs/references/cloud/client-web/account#updatePhoneVerification). The verification code sent to the user&#039;s phone number is valid for 15 minutes.
    *
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Models.Token>}
    */
-  async createPhoneVerification(): PromiseResponseType<T, Models.Token> {
+  async createPhoneVerification(
+    options?: RequestOptions,
+  ): PromiseResponseType<T, Models.Token> {
     return this.client.withSafeResponse(async () => {
       const apiPath = "/account/verification/phone";
       const payload: Payload = {};
@@ -1488,7 +1905,14 @@ Please note that in order to avoid a [Redirect Attack](https://github.com/OWASP/
         "content-type": "application/json",
       };
 
-      return await this.client.call("post", uri, apiHeaders, payload);
+      return await this.client.call(
+        "post",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -1498,11 +1922,13 @@ Please note that in order to avoid a [Redirect Attack](https://github.com/OWASP/
    *
    * @param {string} userId
    * @param {string} secret
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Models.Token>}
    */
   async updatePhoneVerification(
     userId: string,
     secret: string,
+    options?: RequestOptions,
   ): PromiseResponseType<T, Models.Token> {
     return this.client.withSafeResponse(async () => {
       if (typeof userId === "undefined") {
@@ -1525,7 +1951,14 @@ Please note that in order to avoid a [Redirect Attack](https://github.com/OWASP/
         "content-type": "application/json",
       };
 
-      return await this.client.call("put", uri, apiHeaders, payload);
+      return await this.client.call(
+        "put",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
 }
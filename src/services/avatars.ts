@@ -31,7 +31,7 @@ When one dimension is specified and the other is 0, the image is scaled with pre
     height?: number,
     quality?: number,
   ): ResponseType<T, string> {
-    return this.safeResponse(() => {
+    return this.client.withSafeResponseSync(() => {
       if (typeof code === "undefined") {
         throw new NuvixException('Missing required parameter: "code"');
       }
@@ -82,7 +82,7 @@ When one dimension is specified and the other is 0, the image is scaled with pre
     height?: number,
     quality?: number,
   ): ResponseType<T, string> {
-    return this.safeResponse(() => {
+    return this.client.withSafeResponseSync(() => {
       if (typeof code === "undefined") {
         throw new NuvixException('Missing required parameter: "code"');
       }
@@ -124,7 +124,7 @@ This endpoint does not follow HTTP redirects.
      * @returns {string}
      */
   getFavicon(url: string): ResponseType<T, string> {
-    return this.safeResponse(() => {
+    return this.client.withSafeResponseSync(() => {
       if (typeof url === "undefined") {
         throw new NuvixException('Missing required parameter: "url"');
       }
@@ -169,7 +169,7 @@ When one dimension is specified and the other is 0, the image is scaled with pre
     height?: number,
     quality?: number,
   ): ResponseType<T, string> {
-    return this.safeResponse(() => {
+    return this.client.withSafeResponseSync(() => {
       if (typeof code === "undefined") {
         throw new NuvixException('Missing required parameter: "code"');
       }
@@ -219,7 +219,7 @@ This endpoint does not follow HTTP redirects.
     width?: number,
     height?: number,
   ): ResponseType<T, string> {
-    return this.safeResponse(() => {
+    return this.client.withSafeResponseSync(() => {
       if (typeof url === "undefined") {
         throw new NuvixException('Missing required parameter: "url"');
       }
@@ -272,7 +272,7 @@ When one dimension is specified and the other is 0, the image is scaled with pre
     height?: number,
     background?: string,
   ): ResponseType<T, string> {
-    return this.safeResponse(() => {
+    return this.client.withSafeResponseSync(() => {
       const apiPath = "/avatars/initials";
       const payload: Payload = {};
       if (typeof name !== "undefined") {
@@ -321,7 +321,7 @@ When one dimension is specified and the other is 0, the image is scaled with pre
     margin?: number,
     download?: boolean,
   ): ResponseType<T, string> {
-    return this.safeResponse(() => {
+    return this.client.withSafeResponseSync(() => {
       if (typeof text === "undefined") {
         throw new NuvixException('Missing required parameter: "text"');
       }
@@ -355,19 +355,4 @@ When one dimension is specified and the other is 0, the image is scaled with pre
       return uri.toString();
     });
   }
-
-  private safeResponse<R>(callback: () => R): ResponseType<T, R> {
-    try {
-      const result = callback();
-      return { data: result, error: null } as ResponseType<T, R>;
-    } catch (error: any) {
-      return {
-        data: null,
-        error:
-          error instanceof NuvixException
-            ? error
-            : new NuvixException(error.message),
-      } as ResponseType<T, R>;
-    }
-  }
 }
@@ -2,6 +2,7 @@ import {
   GetSchemaType,
   GetTableOrView,
   PromiseResponseType,
+  RequestOptions,
   Schemas as _Schemas,
 } from "../type";
 import { NuvixException, BaseClient, type Payload } from "../base-client";
@@ -9,6 +10,7 @@ import type { Models } from "../models";
 import { SchemaQueryBuilder } from "../builders/schema";
 import { TableQueryBuilder } from "../builders";
 import { CreateInput, UpdateInput } from "../builders/collection";
+import { Paginator, type PaginateOptions } from "../paginate";
 
 export class Database<Schemas extends _Schemas, T extends BaseClient> {
   client: T;
@@ -66,12 +68,14 @@ export class Database<Schemas extends _Schemas, T extends BaseClient> {
    * @param {string} schema
    * @param {string} collectionId
    * @param {string[]} queries
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Models.DocumentList<Document>>}
    */
   async listDocuments<Document extends Models.Document>(
     schema: string,
     collectionId: string,
     queries?: string[],
+    options?: RequestOptions,
   ): PromiseResponseType<T, Models.DocumentList<Document>> {
     return this.client.withSafeResponse(async () => {
       if (typeof schema === "undefined") {
@@ -93,9 +97,40 @@ export class Database<Schemas extends _Schemas, T extends BaseClient> {
         "content-type": "application/json",
       };
 
-      return await this.client.call("get", uri, apiHeaders, payload);
+      return await this.client.call(
+        "get",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
+  /**
+   * Paginate documents
+   *
+   * Iterate over all the documents of a collection, page by page, using cursors.
+   *
+   * @param {string} schema
+   * @param {string} collectionId
+   * @param {string[]} queries
+   * @param {PaginateOptions} options
+   * @returns {Paginator<Document>}
+   */
+  paginateDocuments<Document extends Models.Document>(
+    schema: string,
+    collectionId: string,
+    queries?: string[],
+    options?: PaginateOptions,
+  ): Paginator<Document> {
+    return new Paginator(
+      (queries, options) =>
+        this.listDocuments<Document>(schema, collectionId, queries, options),
+      queries,
+      options,
+    );
+  }
   /**
    * Create document
    *
@@ -106,6 +141,7 @@ export class Database<Schemas extends _Schemas, T extends BaseClient> {
    * @param {string} documentId
    * @param {Omit<Document, keyof Models.Document>} data
    * @param {string[]} permissions
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Document>}
    */
   async createDocument<Document extends Models.Document>(
@@ -114,6 +150,7 @@ export class Database<Schemas extends _Schemas, T extends BaseClient> {
     documentId: string,
     data: CreateInput<Document>,
     permissions?: string[],
+    options?: RequestOptions,
   ): PromiseResponseType<T, Document> {
     return this.client.withSafeResponse(async () => {
       if (typeof schema === "undefined") {
@@ -147,7 +184,14 @@ export class Database<Schemas extends _Schemas, T extends BaseClient> {
         "content-type": "application/json",
       };
 
-      return await this.client.call("post", uri, apiHeaders, payload);
+      return await this.client.call(
+        "post",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -159,6 +203,7 @@ export class Database<Schemas extends _Schemas, T extends BaseClient> {
    * @param {string} collectionId
    * @param {string} documentId
    * @param {string[]} queries
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Document>}
    */
   async getDocument<Document extends Models.Document>(
@@ -166,6 +211,7 @@ export class Database<Schemas extends _Schemas, T extends BaseClient> {
     collectionId: string,
     documentId: string,
     queries?: string[],
+    options?: RequestOptions,
   ): PromiseResponseType<T, Document> {
     return this.client.withSafeResponse(async () => {
       if (typeof schema === "undefined") {
@@ -192,7 +238,14 @@ export class Database<Schemas extends _Schemas, T extends BaseClient> {
         "content-type": "application/json",
       };
 
-      return await this.client.call("get", uri, apiHeaders, payload);
+      return await this.client.call(
+        "get",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -205,6 +258,7 @@ export class Database<Schemas extends _Schemas, T extends BaseClient> {
    * @param {string} documentId
    * @param {Partial<Omit<Document, keyof Models.Document>>} data
    * @param {string[]} permissions
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Document>}
    */
   async updateDocument<Document extends Models.Document>(
@@ -213,6 +267,7 @@ export class Database<Schemas extends _Schemas, T extends BaseClient> {
     documentId: string,
     data?: UpdateInput<Document>,
     permissions?: string[],
+    options?: RequestOptions,
   ): PromiseResponseType<T, Document> {
     return this.client.withSafeResponse(async () => {
       if (typeof schema === "undefined") {
@@ -242,7 +297,14 @@ export class Database<Schemas extends _Schemas, T extends BaseClient> {
         "content-type": "application/json",
       };
 
-      return await this.client.call("patch", uri, apiHeaders, payload);
+      return await this.client.call(
+        "patch",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -253,12 +315,14 @@ export class Database<Schemas extends _Schemas, T extends BaseClient> {
    * @param {string} schema
    * @param {string} collectionId
    * @param {string} documentId
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, {}>}
    */
   async deleteDocument(
     schema: string,
     collectionId: string,
     documentId: string,
+    options?: RequestOptions,
   ): PromiseResponseType<T, {}> {
     return this.client.withSafeResponse(async () => {
       if (typeof schema === "undefined") {
@@ -282,7 +346,14 @@ export class Database<Schemas extends _Schemas, T extends BaseClient> {
         "content-type": "application/json",
       };
 
-      return await this.client.call("delete", uri, apiHeaders, payload);
+      return await this.client.call(
+        "delete",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
 }
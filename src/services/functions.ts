@@ -0,0 +1,357 @@
+import {
+  NuvixAbortException,
+  NuvixException,
+  BaseClient,
+  type Payload,
+} from "../base-client";
+import type { Models } from "../models";
+import { ExecutionMethod } from "../enums/execution-method";
+import { Paginator, type PaginateOptions } from "../paginate";
+import { FunctionsSchema, PromiseResponseType, RequestOptions } from "../type";
+
+/**
+ * Options of `Functions.waitForExecution`.
+ */
+export type ExecutionPollOptions = {
+  /**
+   * Delay between two checks, in milliseconds. Defaults to 1000.
+   */
+  interval?: number;
+
+  /**
+   * Time limit to reach a final status, in milliseconds. Disabled by default.
+   */
+  timeoutMs?: number;
+
+  signal?: AbortSignal;
+};
+
+/**
+ * Options of `Functions.invoke`.
+ */
+export type InvokeOptions = RequestOptions & {
+  /**
+   * Path of the request to the function. Defaults to `/`.
+   */
+  path?: string;
+
+  /**
+   * Method of the request to the function. Defaults to `POST`.
+   */
+  method?: ExecutionMethod;
+
+  headers?: { [header: string]: string };
+};
+
+/** Statuses of an execution that has finished */
+const FINAL_STATUSES = ["completed", "failed"];
+
+export class Functions<
+  T extends BaseClient,
+  Fns extends FunctionsSchema = FunctionsSchema,
+> {
+  client: T;
+
+  constructor(client: T) {
+    this.client = client;
+  }
+
+  /**
+   * List executions
+   *
+   * Get a list of all the current user function execution logs. You can use the query params to filter your results.
+   *
+   * @param {string} functionId
+   * @param {string[]} queries
+   * @param {RequestOptions} options
+   * @returns {PromiseResponseType<T, Models.ExecutionList>}
+   */
+  async listExecutions(
+    functionId: string,
+    queries?: string[],
+    options?: RequestOptions,
+  ): PromiseResponseType<T, Models.ExecutionList> {
+    return this.client.withSafeResponse(async () => {
+      if (typeof functionId === "undefined") {
+        throw new NuvixException('Missing required parameter: "functionId"');
+      }
+      const apiPath = "/functions/{functionId}/executions".replace(
+        "{functionId}",
+        functionId,
+      );
+      const payload: Payload = {};
+      if (typeof queries !== "undefined") {
+        payload["queries"] = queries;
+      }
+      const uri = new URL(this.client.config.endpoint + apiPath);
+
+      const apiHeaders: { [header: string]: string } = {
+        "content-type": "application/json",
+      };
+
+      return await this.client.call(
+        "get",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
+    });
+  }
+  /**
+   * Paginate executions
+   *
+   * Iterate over all the executions of a function, page by page, using cursors.
+   *
+   * @param {string} functionId
+   * @param {string[]} queries
+   * @param {PaginateOptions} options
+   * @returns {Paginator<Models.Execution>}
+   */
+  paginateExecutions(
+    functionId: string,
+    queries?: string[],
+    options?: PaginateOptions,
+  ): Paginator<Models.Execution> {
+    return new Paginator(
+      (queries, options) => this.listExecutions(functionId, queries, options),
+      queries,
+      options,
+    );
+  }
+  /**
+   * Create execution
+   *
+   * Trigger a function execution. The returned object will return you the current execution status. You can ping the `Get Execution` endpoint to get updates on the current execution status. Once this endpoint is called, your function execution process will start asynchronously.
+   *
+   * @param {string} functionId
+   * @param {string} body
+   * @param {boolean} async
+   * @param {string} xpath
+   * @param {ExecutionMethod} method
+   * @param {object} headers
+   * @param {string} scheduledAt
+   * @param {RequestOptions} options
+   * @returns {PromiseResponseType<T, Models.Execution>}
+   */
+  async createExecution(
+    functionId: string,
+    body?: string,
+    async?: boolean,
+    xpath?: string,
+    method?: ExecutionMethod,
+    headers?: object,
+    scheduledAt?: string,
+    options?: RequestOptions,
+  ): PromiseResponseType<T, Models.Execution> {
+    return this.client.withSafeResponse(async () => {
+      if (typeof functionId === "undefined") {
+        throw new NuvixException('Missing required parameter: "functionId"');
+      }
+      const apiPath = "/functions/{functionId}/executions".replace(
+        "{functionId}",
+        functionId,
+      );
+      const payload: Payload = {};
+      if (typeof body !== "undefined") {
+        payload["body"] = body;
+      }
+      if (typeof async !== "undefined") {
+        payload["async"] = async;
+      }
+      if (typeof xpath !== "undefined") {
+        payload["path"] = xpath;
+      }
+      if (typeof method !== "undefined") {
+        payload["method"] = method;
+      }
+      if (typeof headers !== "undefined") {
+        payload["headers"] = headers;
+      }
+      if (typeof scheduledAt !== "undefined") {
+        payload["scheduledAt"] = scheduledAt;
+      }
+      const uri = new URL(this.client.config.endpoint + apiPath);
+
+      const apiHeaders: { [header: string]: string } = {
+        "content-type": "application/json",
+      };
+
+      return await this.client.call(
+        "post",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
+    });
+  }
+  /**
+   * Get execution
+   *
+   * Get a function execution log by its unique ID.
+   *
+   * @param {string} functionId
+   * @param {string} executionId
+   * @param {RequestOptions} options
+   * @returns {PromiseResponseType<T, Models.Execution>}
+   */
+  async getExecution(
+    functionId: string,
+    executionId: string,
+    options?: RequestOptions,
+  ): PromiseResponseType<T, Models.Execution> {
+    return this.client.withSafeResponse(async () => {
+      if (typeof functionId === "undefined") {
+        throw new NuvixException('Missing required parameter: "functionId"');
+      }
+      if (typeof executionId === "undefined") {
+        throw new NuvixException('Missing required parameter: "executionId"');
+      }
+      const apiPath = "/functions/{functionId}/executions/{executionId}"
+        .replace("{functionId}", functionId)
+        .replace("{executionId}", executionId);
+      const payload: Payload = {};
+      const uri = new URL(this.client.config.endpoint + apiPath);
+
+      const apiHeaders: { [header: string]: string } = {
+        "content-type": "application/json",
+      };
+
+      return await this.client.call(
+        "get",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
+    });
+  }
+  /**
+   * Wait for execution
+   *
+   * Poll an execution, e.g. created with `async`, until its status is `completed` or `failed`.
+   *
+   * @param {string} functionId
+   * @param {string} executionId
+   * @param {ExecutionPollOptions} options
+   * @returns {PromiseResponseType<T, Models.Execution>}
+   */
+  async waitForExecution(
+    functionId: string,
+    executionId: string,
+    { interval = 1000, timeoutMs, signal }: ExecutionPollOptions = {},
+  ): PromiseResponseType<T, Models.Execution> {
+    return this.client.withSafeResponse(async () => {
+      const controller = new AbortController();
+      const abort = () => controller.abort();
+      if (signal?.aborted) abort();
+      signal?.addEventListener("abort", abort);
+      const timer = timeoutMs ? setTimeout(abort, timeoutMs) : undefined;
+
+      try {
+        while (true) {
+          const execution = await this.client.unwrap<Models.Execution>(
+            this.getExecution(functionId, executionId, {
+              signal: controller.signal,
+            }),
+          );
+          if (FINAL_STATUSES.includes(execution.status)) return execution;
+
+          await BaseClient.sleep(interval, controller.signal);
+        }
+      } catch (e) {
+        if (!controller.signal.aborted) throw e;
+        throw signal?.aborted
+          ? new NuvixAbortException("Execution polling was aborted", "aborted")
+          : new NuvixAbortException(
+              `Execution did not finish within ${timeoutMs}ms`,
+              "timeout",
+            );
+      } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", abort);
+      }
+    });
+  }
+  /**
+   * Invoke function
+   *
+   * Execute a function synchronously with a JSON body, and decode its JSON response, `null` when the function responded with an empty body. Requests and responses are typed by the `Fns` schema of the client.
+   *
+   * @param {string} functionId
+   * @param {Fns[Id]["Body"]} body
+   * @param {InvokeOptions} options
+   * @throws {NuvixException} When the execution failed or the function responded with an error status.
+   * @returns {PromiseResponseType<T, Fns[Id]["Response"] | null>}
+   */
+  async invoke<Id extends keyof Fns & string>(
+    functionId: Id,
+    body?: Fns[Id]["Body"],
+    {
+      path,
+      method = ExecutionMethod.POST,
+      headers,
+      ...options
+    }: InvokeOptions = {},
+  ): PromiseResponseType<T, Fns[Id]["Response"] | null> {
+    return this.client.withSafeResponse(async () => {
+      const execution = await this.client.unwrap<Models.Execution>(
+        this.createExecution(
+          functionId,
+          body === undefined
+            ? undefined
+            : typeof body === "string"
+              ? body
+              : JSON.stringify(body),
+          false,
+          path,
+          method,
+          { "content-type": "application/json", ...headers },
+          undefined,
+          options,
+        ),
+      );
+      if (
+        execution.status === "failed" ||
+        execution.responseStatusCode >= 400
+      ) {
+        throw new NuvixException(
+          readMessage(execution),
+          execution.responseStatusCode,
+          "function_execution_failed",
+          execution.responseBody,
+        );
+      }
+
+      if (!execution.responseBody) return null;
+      try {
+        return JSON.parse(execution.responseBody);
+      } catch {
+        throw new NuvixException(
+          `Function "${functionId}" did not respond with JSON`,
+          execution.responseStatusCode,
+          "function_invalid_response",
+          execution.responseBody,
+        );
+      }
+    });
+  }
+}
+
+/**
+ * Read the error message of a failed execution.
+ */
+function readMessage(execution: Models.Execution): string {
+  try {
+    const parsed = JSON.parse(execution.responseBody);
+    if (typeof parsed?.message === "string") return parsed.message;
+  } catch {}
+  return (
+    execution.errors ||
+    `Function execution failed with status ${execution.responseStatusCode}`
+  );
+}
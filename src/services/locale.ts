@@ -1,4 +1,4 @@
-import { PromiseResponseType } from "../type";
+import { PromiseResponseType, RequestOptions } from "../type";
 import { BaseClient, type Payload } from "../base-client";
 import type { Models } from "../models";
 
@@ -14,9 +14,10 @@ export class Locale<T extends BaseClient = BaseClient> {
    *
    * Get the current user location based on IP. Returns an object with user country code, country name, continent name, continent code, ip address and suggested currency. You can use the locale header to get the data in a supported language. ([IP Geolocation by DB-IP](https://db-ip.com))
    *
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Models.Locale>}
    */
-  async get(): PromiseResponseType<T, Models.Locale> {
+  async get(options?: RequestOptions): PromiseResponseType<T, Models.Locale> {
     return this.client.withSafeResponse(async () => {
       const apiPath = "/locale";
       const payload: Payload = {};
@@ -26,7 +27,14 @@ export class Locale<T extends BaseClient = BaseClient> {
         "content-type": "application/json",
       };
 
-      return await this.client.call("get", uri, apiHeaders, payload);
+      return await this.client.call(
+        "get",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -34,9 +42,12 @@ export class Locale<T extends BaseClient = BaseClient> {
    *
    * List of all locale codes in [ISO 639-1](https://en.wikipedia.org/wiki/List_of_ISO_639-1_codes).
    *
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Models.LocaleCodeList>}
    */
-  async listCodes(): PromiseResponseType<T, Models.LocaleCodeList> {
+  async listCodes(
+    options?: RequestOptions,
+  ): PromiseResponseType<T, Models.LocaleCodeList> {
     return this.client.withSafeResponse(async () => {
       const apiPath = "/locale/codes";
       const payload: Payload = {};
@@ -46,7 +57,14 @@ export class Locale<T extends BaseClient = BaseClient> {
         "content-type": "application/json",
       };
 
-      return await this.client.call("get", uri, apiHeaders, payload);
+      return await this.client.call(
+        "get",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -54,9 +72,12 @@ export class Locale<T extends BaseClient = BaseClient> {
    *
    * List of all continents. You can use the locale header to get the data in a supported language.
    *
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Models.ContinentList>}
    */
-  async listContinents(): PromiseResponseType<T, Models.ContinentList> {
+  async listContinents(
+    options?: RequestOptions,
+  ): PromiseResponseType<T, Models.ContinentList> {
     return this.client.withSafeResponse(async () => {
       const apiPath = "/locale/continents";
       const payload: Payload = {};
@@ -66,7 +87,14 @@ export class Locale<T extends BaseClient = BaseClient> {
         "content-type": "application/json",
       };
 
-      return await this.client.call("get", uri, apiHeaders, payload);
+      return await this.client.call(
+        "get",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -74,9 +102,12 @@ export class Locale<T extends BaseClient = BaseClient> {
    *
    * List of all countries. You can use the locale header to get the data in a supported language.
    *
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Models.CountryList>}
    */
-  async listCountries(): PromiseResponseType<T, Models.CountryList> {
+  async listCountries(
+    options?: RequestOptions,
+  ): PromiseResponseType<T, Models.CountryList> {
     return this.client.withSafeResponse(async () => {
       const apiPath = "/locale/countries";
       const payload: Payload = {};
@@ -86,7 +117,14 @@ export class Locale<T extends BaseClient = BaseClient> {
         "content-type": "application/json",
       };
 
-      return await this.client.call("get", uri, apiHeaders, payload);
+      return await this.client.call(
+        "get",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -94,9 +132,12 @@ export class Locale<T extends BaseClient = BaseClient> {
    *
    * List of all countries that are currently members of the EU. You can use the locale header to get the data in a supported language.
    *
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Models.CountryList>}
    */
-  async listCountriesEU(): PromiseResponseType<T, Models.CountryList> {
+  async listCountriesEU(
+    options?: RequestOptions,
+  ): PromiseResponseType<T, Models.CountryList> {
     return this.client.withSafeResponse(async () => {
       const apiPath = "/locale/countries/eu";
       const payload: Payload = {};
@@ -106,7 +147,14 @@ export class Locale<T extends BaseClient = BaseClient> {
         "content-type": "application/json",
       };
 
-      return await this.client.call("get", uri, apiHeaders, payload);
+      return await this.client.call(
+        "get",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -114,9 +162,12 @@ export class Locale<T extends BaseClient = BaseClient> {
    *
    * List of all countries phone codes. You can use the locale header to get the data in a supported language.
    *
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Models.PhoneList>}
    */
-  async listCountriesPhones(): PromiseResponseType<T, Models.PhoneList> {
+  async listCountriesPhones(
+    options?: RequestOptions,
+  ): PromiseResponseType<T, Models.PhoneList> {
     return this.client.withSafeResponse(async () => {
       const apiPath = "/locale/countries/phones";
       const payload: Payload = {};
@@ -126,7 +177,14 @@ export class Locale<T extends BaseClient = BaseClient> {
         "content-type": "application/json",
       };
 
-      return await this.client.call("get", uri, apiHeaders, payload);
+      return await this.client.call(
+        "get",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -134,9 +192,12 @@ export class Locale<T extends BaseClient = BaseClient> {
    *
    * List of all currencies, including currency symbol, name, plural, and decimal digits for all major and minor currencies. You can use the locale header to get the data in a supported language.
    *
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Models.CurrencyList>}
    */
-  async listCurrencies(): PromiseResponseType<T, Models.CurrencyList> {
+  async listCurrencies(
+    options?: RequestOptions,
+  ): PromiseResponseType<T, Models.CurrencyList> {
     return this.client.withSafeResponse(async () => {
       const apiPath = "/locale/currencies";
       const payload: Payload = {};
@@ -146,7 +207,14 @@ export class Locale<T extends BaseClient = BaseClient> {
         "content-type": "application/json",
       };
 
-      return await this.client.call("get", uri, apiHeaders, payload);
+      return await this.client.call(
+        "get",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -154,9 +222,12 @@ export class Locale<T extends BaseClient = BaseClient> {
    *
    * List of all languages classified by ISO 639-1 including 2-letter code, name in English, and name in the respective language.
    *
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Models.LanguageList>}
    */
-  async listLanguages(): PromiseResponseType<T, Models.LanguageList> {
+  async listLanguages(
+    options?: RequestOptions,
+  ): PromiseResponseType<T, Models.LanguageList> {
     return this.client.withSafeResponse(async () => {
       const apiPath = "/locale/languages";
       const payload: Payload = {};
@@ -166,7 +237,14 @@ export class Locale<T extends BaseClient = BaseClient> {
         "content-type": "application/json",
       };
 
-      return await this.client.call("get", uri, apiHeaders, payload);
+      return await this.client.call(
+        "get",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
 }
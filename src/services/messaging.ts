@@ -1,6 +1,6 @@
 import { NuvixException, BaseClient, type Payload } from "../base-client";
 import type { Models } from "../models";
-import { PromiseResponseType } from "../type";
+import { PromiseResponseType, RequestOptions } from "../type";
 
 export class Messaging<T extends BaseClient> {
   client: T;
@@ -17,12 +17,14 @@ export class Messaging<T extends BaseClient> {
    * @param {string} topicId
    * @param {string} subscriberId
    * @param {string} targetId
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Models.Subscriber>}
    */
   async createSubscriber(
     topicId: string,
     subscriberId: string,
     targetId: string,
+    options?: RequestOptions,
   ): PromiseResponseType<T, Models.Subscriber> {
     return await this.client.withSafeResponse(async () => {
       if (typeof topicId === "undefined") {
@@ -51,7 +53,14 @@ export class Messaging<T extends BaseClient> {
         "content-type": "application/json",
       };
 
-      return await this.client.call("post", uri, apiHeaders, payload);
+      return await this.client.call(
+        "post",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -61,11 +70,13 @@ export class Messaging<T extends BaseClient> {
    *
    * @param {string} topicId
    * @param {string} subscriberId
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, {}>}
    */
   async deleteSubscriber(
     topicId: string,
     subscriberId: string,
+    options?: RequestOptions,
   ): PromiseResponseType<T, {}> {
     return await this.client.withSafeResponse(async () => {
       if (typeof topicId === "undefined") {
@@ -84,7 +95,14 @@ export class Messaging<T extends BaseClient> {
         "content-type": "application/json",
       };
 
-      return await this.client.call("delete", uri, apiHeaders, payload);
+      return await this.client.call(
+        "delete",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
 }
@@ -8,7 +8,19 @@ import {
 import type { Models } from "../models";
 import { ImageGravity } from "../enums/image-gravity";
 import { ImageFormat } from "../enums/image-format";
-import { PromiseResponseType, ResponseType } from "../type";
+import {
+  PromiseResponseType,
+  RequestOptions,
+  ResponseType,
+  UploadOptions,
+} from "../type";
+import { Paginator, type PaginateOptions } from "../paginate";
+import {
+  UploadQueue,
+  UploadTask,
+  type UploadControl,
+  type UploadQueueOptions,
+} from "../upload";
 
 export class Storage<T extends BaseClient> {
   client: T;
@@ -25,12 +37,14 @@ export class Storage<T extends BaseClient> {
    * @param {string} bucketId
    * @param {string[]} queries
    * @param {string} search
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Models.FileList>}
    */
   async listFiles(
     bucketId: string,
     queries?: string[],
     search?: string,
+    options?: RequestOptions,
   ): PromiseResponseType<T, Models.FileList> {
     return this.client.withSafeResponse(async () => {
       if (typeof bucketId === "undefined") {
@@ -53,9 +67,39 @@ export class Storage<T extends BaseClient> {
         "content-type": "application/json",
       };
 
-      return await this.client.call("get", uri, apiHeaders, payload);
+      return await this.client.call(
+        "get",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
+  /**
+   * Paginate files
+   *
+   * Iterate over all the files of a bucket, page by page, using cursors.
+   *
+   * @param {string} bucketId
+   * @param {string[]} queries
+   * @param {string} search
+   * @param {PaginateOptions} options
+   * @returns {Paginator<Models.File>}
+   */
+  paginateFiles(
+    bucketId: string,
+    queries?: string[],
+    search?: string,
+    options?: PaginateOptions,
+  ): Paginator<Models.File> {
+    return new Paginator(
+      (queries, options) => this.listFiles(bucketId, queries, search, options),
+      queries,
+      options,
+    );
+  }
   /**
      * Create file
      *
@@ -67,21 +111,26 @@ When the first request is sent, the server will return the **File** object, and
 
 If you&#039;re creating a new file using one of the Nuvix SDKs, all the chunking logic will be managed by the SDK internally.
 
+     * Interrupted uploads are resumed: uploading the same file to the same bucket again, e.g. after a page reload, continues after the last chunk received by the server, under the file ID of the interrupted upload. The upload state is kept in the session storage of the client.
+     *
+     * The returned task resolves to the file, and can be paused, resumed and cancelled. The chunk size and the number of chunks sent in parallel default to the `upload` options of the client.
      *
      * @param {string} bucketId
      * @param {string} fileId
      * @param {File} file
      * @param {string[]} permissions
-     * @returns {PromiseResponseType<T, Models.File>}
+     * @param {RequestOptions & UploadOptions} options
+     * @returns {UploadTask<T, Models.File>}
      */
-  async createFile(
+  createFile(
     bucketId: string,
     fileId: string,
     file: File,
     permissions?: string[],
     onProgress = (progress: UploadProgress) => {},
-  ): PromiseResponseType<T, Models.File> {
-    return this.client.withSafeResponse(async () => {
+    options?: RequestOptions & UploadOptions,
+  ): UploadTask<T, Models.File> {
+    const upload = async (control: UploadControl) => {
       if (typeof bucketId === "undefined") {
         throw new NuvixException('Missing required parameter: "bucketId"');
       }
@@ -117,8 +166,24 @@ If you&#039;re creating a new file using one of the Nuvix SDKs, all the chunking
         apiHeaders,
         payload,
         onProgress,
+        options,
+        (id) => this.client.unwrap(this.getFile(bucketId, id, options)),
+        control,
       );
-    });
+    };
+    return new UploadTask(this.client, upload, options?.signal);
+  }
+  /**
+   * Upload queue
+   *
+   * Create a queue uploading many files to a bucket, with bounded concurrency, retries, and per-file and overall progress.
+   *
+   * @param {string} bucketId
+   * @param {UploadQueueOptions} options
+   * @returns {UploadQueue<T>}
+   */
+  uploadQueue(bucketId: string, options?: UploadQueueOptions): UploadQueue<T> {
+    return new UploadQueue(this, bucketId, options);
   }
   /**
    * Get file
@@ -127,11 +192,13 @@ If you&#039;re creating a new file using one of the Nuvix SDKs, all the chunking
    *
    * @param {string} bucketId
    * @param {string} fileId
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Models.File>}
    */
   async getFile(
     bucketId: string,
     fileId: string,
+    options?: RequestOptions,
   ): PromiseResponseType<T, Models.File> {
     return this.client.withSafeResponse(async () => {
       if (typeof bucketId === "undefined") {
@@ -150,7 +217,14 @@ If you&#039;re creating a new file using one of the Nuvix SDKs, all the chunking
         "content-type": "application/json",
       };
 
-      return await this.client.call("get", uri, apiHeaders, payload);
+      return await this.client.call(
+        "get",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -162,6 +236,7 @@ If you&#039;re creating a new file using one of the Nuvix SDKs, all the chunking
    * @param {string} fileId
    * @param {string} name
    * @param {string[]} permissions
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Models.File>}
    */
   async updateFile(
@@ -169,6 +244,7 @@ If you&#039;re creating a new file using one of the Nuvix SDKs, all the chunking
     fileId: string,
     name?: string,
     permissions?: string[],
+    options?: RequestOptions,
   ): PromiseResponseType<T, Models.File> {
     return this.client.withSafeResponse(async () => {
       if (typeof bucketId === "undefined") {
@@ -193,7 +269,14 @@ If you&#039;re creating a new file using one of the Nuvix SDKs, all the chunking
         "content-type": "application/json",
       };
 
-      return await this.client.call("put", uri, apiHeaders, payload);
+      return await this.client.call(
+        "put",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -203,11 +286,13 @@ If you&#039;re creating a new file using one of the Nuvix SDKs, all the chunking
    *
    * @param {string} bucketId
    * @param {string} fileId
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, {}>}
    */
   async deleteFile(
     bucketId: string,
     fileId: string,
+    options?: RequestOptions,
   ): PromiseResponseType<T, {}> {
     return this.client.withSafeResponse(async () => {
       if (typeof bucketId === "undefined") {
@@ -226,7 +311,14 @@ If you&#039;re creating a new file using one of the Nuvix SDKs, all the chunking
         "content-type": "application/json",
       };
 
-      return await this.client.call("delete", uri, apiHeaders, payload);
+      return await this.client.call(
+        "delete",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -239,7 +331,7 @@ If you&#039;re creating a new file using one of the Nuvix SDKs, all the chunking
    * @returns {string}
    */
   getFileDownload(bucketId: string, fileId: string): ResponseType<T, string> {
-    return this.safeResponse(() => {
+    return this.client.withSafeResponseSync(() => {
       if (typeof bucketId === "undefined") {
         throw new NuvixException('Missing required parameter: "bucketId"');
       }
@@ -336,7 +428,7 @@ If you&#039;re creating a new file using one of the Nuvix SDKs, all the chunking
     background?: string,
     output?: ImageFormat,
   ): ResponseType<T, string> {
-    return this.safeResponse(() => {
+    return this.client.withSafeResponseSync(() => {
       if (typeof bucketId === "undefined") {
         throw new NuvixException('Missing required parameter: "bucketId"');
       }
@@ -427,7 +519,7 @@ If you&#039;re creating a new file using one of the Nuvix SDKs, all the chunking
    * @returns {string}
    */
   getFileView(bucketId: string, fileId: string): ResponseType<T, string> {
-    return this.safeResponse(() => {
+    return this.client.withSafeResponseSync(() => {
       if (typeof bucketId === "undefined") {
         throw new NuvixException('Missing required parameter: "bucketId"');
       }
@@ -454,19 +546,4 @@ If you&#039;re creating a new file using one of the Nuvix SDKs, all the chunking
       return uri.toString();
     });
   }
-
-  private safeResponse<R>(callback: () => R): ResponseType<T, R> {
-    try {
-      const result = callback();
-      return { data: result, error: null } as ResponseType<T, R>;
-    } catch (error: any) {
-      return {
-        data: null,
-        error:
-          error instanceof NuvixException
-            ? error
-            : new NuvixException(error.message),
-      } as ResponseType<T, R>;
-    }
-  }
 }
@@ -1,6 +1,7 @@
 import { NuvixException, BaseClient, type Payload } from "../base-client";
 import type { Models } from "../models";
-import { PromiseResponseType } from "../type";
+import { PromiseResponseType, RequestOptions } from "../type";
+import { Paginator, type PaginateOptions } from "../paginate";
 
 export class Teams<T extends BaseClient> {
   client: T;
@@ -16,11 +17,13 @@ export class Teams<T extends BaseClient> {
    *
    * @param {string[]} queries
    * @param {string} search
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T, Models.TeamList<Preferences>>}
    */
   async list<Preferences extends Models.Preferences>(
     queries?: string[],
     search?: string,
+    options?: RequestOptions,
   ): PromiseResponseType<T, Models.TeamList<Preferences>> {
     return this.client.withSafeResponse(async () => {
       const apiPath = "/teams";
@@ -37,9 +40,37 @@ export class Teams<T extends BaseClient> {
         "content-type": "application/json",
       };
 
-      return await this.client.call("get", uri, apiHeaders, payload);
+      return await this.client.call(
+        "get",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
+  /**
+   * Paginate teams
+   *
+   * Iterate over all the teams the current user is a member of, page by page, using cursors.
+   *
+   * @param {string[]} queries
+   * @param {string} search
+   * @param {PaginateOptions} options
+   * @returns {Paginator<Models.Team<Preferences>>}
+   */
+  paginate<Preferences extends Models.Preferences>(
+    queries?: string[],
+    search?: string,
+    options?: PaginateOptions,
+  ): Paginator<Models.Team<Preferences>> {
+    return new Paginator(
+      (queries, options) => this.list<Preferences>(queries, search, options),
+      queries,
+      options,
+    );
+  }
   /**
    * Create team
    *
@@ -48,12 +79,14 @@ export class Teams<T extends BaseClient> {
    * @param {string} teamId
    * @param {string} name
    * @param {string[]} roles
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T,  Models.Team<Preferences>>}
    */
   async create<Preferences extends Models.Preferences>(
     teamId: string,
     name: string,
     roles?: string[],
+    options?: RequestOptions,
   ): PromiseResponseType<T, Models.Team<Preferences>> {
     return this.client.withSafeResponse(async () => {
       if (typeof teamId === "undefined") {
@@ -79,7 +112,14 @@ export class Teams<T extends BaseClient> {
         "content-type": "application/json",
       };
 
-      return await this.client.call("post", uri, apiHeaders, payload);
+      return await this.client.call(
+        "post",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -88,10 +128,12 @@ export class Teams<T extends BaseClient> {
    * Get a team by its ID. All team members have read access for this resource.
    *
    * @param {string} teamId
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T,  Models.Team<Preferences>>}
    */
   async get<Preferences extends Models.Preferences>(
     teamId: string,
+    options?: RequestOptions,
   ): PromiseResponseType<T, Models.Team<Preferences>> {
     return this.client.withSafeResponse(async () => {
       if (typeof teamId === "undefined") {
@@ -105,7 +147,14 @@ export class Teams<T extends BaseClient> {
         "content-type": "application/json",
       };
 
-      return await this.client.call("get", uri, apiHeaders, payload);
+      return await this.client.call(
+        "get",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -115,11 +164,13 @@ export class Teams<T extends BaseClient> {
    *
    * @param {string} teamId
    * @param {string} name
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T,  Models.Team<Preferences>>}
    */
   async updateName<Preferences extends Models.Preferences>(
     teamId: string,
     name: string,
+    options?: RequestOptions,
   ): PromiseResponseType<T, Models.Team<Preferences>> {
     return this.client.withSafeResponse(async () => {
       if (typeof teamId === "undefined") {
@@ -139,7 +190,14 @@ export class Teams<T extends BaseClient> {
         "content-type": "application/json",
       };
 
-      return await this.client.call("put", uri, apiHeaders, payload);
+      return await this.client.call(
+        "put",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -148,9 +206,13 @@ export class Teams<T extends BaseClient> {
    * Delete a team using its ID. Only team members with the owner role can delete the team.
    *
    * @param {string} teamId
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T,  {}>}
    */
-  async delete(teamId: string): PromiseResponseType<T, {}> {
+  async delete(
+    teamId: string,
+    options?: RequestOptions,
+  ): PromiseResponseType<T, {}> {
     return this.client.withSafeResponse(async () => {
       if (typeof teamId === "undefined") {
         throw new NuvixException('Missing required parameter: "teamId"');
@@ -163,7 +225,14 @@ export class Teams<T extends BaseClient> {
         "content-type": "application/json",
       };
 
-      return await this.client.call("delete", uri, apiHeaders, payload);
+      return await this.client.call(
+        "delete",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -174,12 +243,14 @@ export class Teams<T extends BaseClient> {
    * @param {string} teamId
    * @param {string[]} queries
    * @param {string} search
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T,  Models.MembershipList>}
    */
   async listMemberships(
     teamId: string,
     queries?: string[],
     search?: string,
+    options?: RequestOptions,
   ): PromiseResponseType<T, Models.MembershipList> {
     return this.client.withSafeResponse(async () => {
       if (typeof teamId === "undefined") {
@@ -199,9 +270,40 @@ export class Teams<T extends BaseClient> {
         "content-type": "application/json",
       };
 
-      return await this.client.call("get", uri, apiHeaders, payload);
+      return await this.client.call(
+        "get",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
+  /**
+   * Paginate team memberships
+   *
+   * Iterate over all the memberships of a team, page by page, using cursors.
+   *
+   * @param {string} teamId
+   * @param {string[]} queries
+   * @param {string} search
+   * @param {PaginateOptions} options
+   * @returns {Paginator<Models.Membership>}
+   */
+  paginateMemberships(
+    teamId: string,
+    queries?: string[],
+    search?: string,
+    options?: PaginateOptions,
+  ): Paginator<Models.Membership> {
+    return new Paginator(
+      (queries, options) =>
+        this.listMemberships(teamId, queries, search, options),
+      queries,
+      options,
+    );
+  }
   /**
      * Create team membership
      *
@@ -221,6 +323,7 @@ Please note that to avoid a [Redirect Attack](https://github.com/OWASP/CheatShee
      * @param {string} phone
      * @param {string} url
      * @param {string} name
+     * @param {RequestOptions} options
      * @returns {PromiseResponseType<T,  Models.Membership>}
      */
   async createMembership(
@@ -231,6 +334,7 @@ Please note that to avoid a [Redirect Attack](https://github.com/OWASP/CheatShee
     phone?: string,
     url?: string,
     name?: string,
+    options?: RequestOptions,
   ): PromiseResponseType<T, Models.Membership> {
     return this.client.withSafeResponse(async () => {
       if (typeof teamId === "undefined") {
@@ -265,7 +369,14 @@ Please note that to avoid a [Redirect Attack](https://github.com/OWASP/CheatShee
         "content-type": "application/json",
       };
 
-      return await this.client.call("post", uri, apiHeaders, payload);
+      return await this.client.call(
+        "post",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -275,11 +386,13 @@ Please note that to avoid a [Redirect Attack](https://github.com/OWASP/CheatShee
    *
    * @param {string} teamId
    * @param {string} membershipId
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T,  Models.Membership>}
    */
   async getMembership(
     teamId: string,
     membershipId: string,
+    options?: RequestOptions,
   ): PromiseResponseType<T, Models.Membership> {
     return this.client.withSafeResponse(async () => {
       if (typeof teamId === "undefined") {
@@ -298,7 +411,14 @@ Please note that to avoid a [Redirect Attack](https://github.com/OWASP/CheatShee
         "content-type": "application/json",
       };
 
-      return await this.client.call("get", uri, apiHeaders, payload);
+      return await this.client.call(
+        "get",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -310,12 +430,14 @@ Please note that to avoid a [Redirect Attack](https://github.com/OWASP/CheatShee
      * @param {string} teamId
      * @param {string} membershipId
      * @param {string[]} roles
+     * @param {RequestOptions} options
      * @returns {PromiseResponseType<T,  Models.Membership>}
      */
   async updateMembership(
     teamId: string,
     membershipId: string,
     roles: string[],
+    options?: RequestOptions,
   ): PromiseResponseType<T, Models.Membership> {
     return this.client.withSafeResponse(async () => {
       if (typeof teamId === "undefined") {
@@ -340,7 +462,14 @@ Please note that to avoid a [Redirect Attack](https://github.com/OWASP/CheatShee
         "content-type": "application/json",
       };
 
-      return await this.client.call("patch", uri, apiHeaders, payload);
+      return await this.client.call(
+        "patch",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -350,11 +479,13 @@ Please note that to avoid a [Redirect Attack](https://github.com/OWASP/CheatShee
    *
    * @param {string} teamId
    * @param {string} membershipId
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T,  {}>}
    */
   async deleteMembership(
     teamId: string,
     membershipId: string,
+    options?: RequestOptions,
   ): PromiseResponseType<T, {}> {
     return this.client.withSafeResponse(async () => {
       if (typeof teamId === "undefined") {
@@ -373,7 +504,14 @@ Please note that to avoid a [Redirect Attack](https://github.com/OWASP/CheatShee
         "content-type": "application/json",
       };
 
-      return await this.client.call("delete", uri, apiHeaders, payload);
+      return await this.client.call(
+        "delete",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -388,6 +526,7 @@ If the request is successful, a session for the user is automatically created.
      * @param {string} membershipId
      * @param {string} userId
      * @param {string} secret
+     * @param {RequestOptions} options
      * @returns {PromiseResponseType<T,  Models.Membership>}
      */
   async updateMembershipStatus(
@@ -395,6 +534,7 @@ If the request is successful, a session for the user is automatically created.
     membershipId: string,
     userId: string,
     secret: string,
+    options?: RequestOptions,
   ): PromiseResponseType<T, Models.Membership> {
     return this.client.withSafeResponse(async () => {
       if (typeof teamId === "undefined") {
@@ -425,7 +565,14 @@ If the request is successful, a session for the user is automatically created.
         "content-type": "application/json",
       };
 
-      return await this.client.call("patch", uri, apiHeaders, payload);
+      return await this.client.call(
+        "patch",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -434,10 +581,12 @@ If the request is successful, a session for the user is automatically created.
    * Get the team&#039;s shared preferences by its unique ID. If a preference doesn&#039;t need to be shared by all team members, prefer storing them in [user preferences](https://nuvix.io/docs/references/cloud/client-web/account#getPrefs).
    *
    * @param {string} teamId
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T,  Preferences>}
    */
   async getPrefs<Preferences extends Models.Preferences>(
     teamId: string,
+    options?: RequestOptions,
   ): PromiseResponseType<T, Preferences> {
     return this.client.withSafeResponse(async () => {
       if (typeof teamId === "undefined") {
@@ -451,7 +600,14 @@ If the request is successful, a session for the user is automatically created.
         "content-type": "application/json",
       };
 
-      return await this.client.call("get", uri, apiHeaders, payload);
+      return await this.client.call(
+        "get",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
   /**
@@ -461,11 +617,13 @@ If the request is successful, a session for the user is automatically created.
    *
    * @param {string} teamId
    * @param {object} prefs
+   * @param {RequestOptions} options
    * @returns {PromiseResponseType<T,  Preferences>}
    */
   async updatePrefs<Preferences extends Models.Preferences>(
     teamId: string,
     prefs: object,
+    options?: RequestOptions,
   ): PromiseResponseType<T, Preferences> {
     return this.client.withSafeResponse(async () => {
       if (typeof teamId === "undefined") {
@@ -485,7 +643,14 @@ If the request is successful, a session for the user is automatically created.
         "content-type": "application/json",
       };
 
-      return await this.client.call("put", uri, apiHeaders, payload);
+      return await this.client.call(
+        "put",
+        uri,
+        apiHeaders,
+        payload,
+        "json",
+        options,
+      );
     });
   }
 }
@@ -0,0 +1,211 @@
+import { NuvixException } from "./error";
+
+export type TotpAlgorithm = "SHA1" | "SHA256" | "SHA512";
+
+/**
+ * Parameters of an `otpauth://` URI, as returned in `Models.MfaType`.
+ */
+export type OtpAuthUri = {
+  type: "totp" | "hotp";
+
+  /**
+   * Full label, usually `Issuer:account`.
+   */
+  label: string;
+  issuer: string | null;
+  account: string;
+
+  /**
+   * Base32 encoded shared secret.
+   */
+  secret: string;
+  algorithm: TotpAlgorithm;
+  digits: number;
+
+  /**
+   * Time step in seconds.
+   */
+  period: number;
+
+  /**
+   * Initial counter of HOTP URIs.
+   */
+  counter: number | null;
+};
+
+/**
+ * Options of `generateTotp`.
+ */
+export type TotpOptions = {
+  algorithm?: TotpAlgorithm;
+  digits?: number;
+
+  /**
+   * Time step in seconds. Defaults to 30.
+   */
+  period?: number;
+
+  /**
+   * Time to compute the code for, in milliseconds. Defaults to now.
+   */
+  timestamp?: number;
+};
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+const HASHES: Record<TotpAlgorithm, string> = {
+  SHA1: "SHA-1",
+  SHA256: "SHA-256",
+  SHA512: "SHA-512",
+};
+
+/**
+ * Parse an `otpauth://` URI.
+ *
+ * @param {string} uri
+ * @throws {NuvixException} When the URI is invalid or has no secret.
+ * @returns {OtpAuthUri}
+ */
+export function parseOtpAuthUri(uri: string): OtpAuthUri {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    throw invalidUri("Invalid otpauth URI");
+  }
+
+  const type = url.hostname.toLowerCase();
+  if (url.protocol !== "otpauth:" || (type !== "totp" && type !== "hotp")) {
+    throw invalidUri("Invalid otpauth URI");
+  }
+
+  const params = url.searchParams;
+  const secret = params.get("secret");
+  if (!secret) {
+    throw invalidUri('Missing "secret" in otpauth URI');
+  }
+
+  const label = decodeURIComponent(url.pathname.replace(/^\//, ""));
+  const separator = label.indexOf(":");
+  const account = (
+    separator === -1 ? label : label.slice(separator + 1)
+  ).trim();
+  const issuer =
+    params.get("issuer") ??
+    (separator === -1 ? null : label.slice(0, separator));
+
+  const algorithm = (params.get("algorithm") ?? "SHA1").toUpperCase();
+  if (!(algorithm in HASHES)) {
+    throw invalidUri(`Unsupported algorithm "${algorithm}" in otpauth URI`);
+  }
+
+  const counter = params.get("counter");
+
+  return {
+    type,
+    label,
+    issuer,
+    account,
+    secret: secret.replace(/\s/g, "").toUpperCase(),
+    algorithm: algorithm as TotpAlgorithm,
+    digits: Number(params.get("digits") ?? 6),
+    period: Number(params.get("period") ?? 30),
+    counter: counter === null ? null : Number(counter),
+  };
+}
+
+/**
+ * Compute a TOTP code (RFC 6238) locally.
+ *
+ * @param {string} secret - Base32 encoded secret, or an `otpauth://` URI.
+ * @param {TotpOptions} options - Override the parameters of the URI.
+ * @returns {Promise<string>}
+ */
+export async function generateTotp(
+  secret: string,
+  options: TotpOptions = {},
+): Promise<string> {
+  const defaults = secret.startsWith("otpauth://")
+    ? parseOtpAuthUri(secret)
+    : { secret, algorithm: "SHA1" as const, digits: 6, period: 30 };
+
+  const {
+    algorithm = defaults.algorithm,
+    digits = defaults.digits,
+    period = defaults.period,
+    timestamp = Date.now(),
+  } = options;
+
+  const counter = Math.floor(timestamp / 1000 / period);
+  return await generateHotp(defaults.secret, counter, algorithm, digits);
+}
+
+/**
+ * Compute an HOTP code (RFC 4226) for a counter.
+ *
+ * @param {string} secret - Base32 encoded secret.
+ * @param {number} counter
+ * @param {TotpAlgorithm} algorithm
+ * @param {number} digits
+ * @returns {Promise<string>}
+ */
+export async function generateHotp(
+  secret: string,
+  counter: number,
+  algorithm: TotpAlgorithm = "SHA1",
+  digits = 6,
+): Promise<string> {
+  const message = new Uint8Array(8);
+  new DataView(message.buffer).setBigUint64(0, BigInt(counter));
+
+  const key = await crypto.subtle.importKey(
+    "raw",
+    base32Decode(secret),
+    { name: "HMAC", hash: HASHES[algorithm] },
+    false,
+    ["sign"],
+  );
+  const hmac = new Uint8Array(await crypto.subtle.sign("HMAC", key, message));
+
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return String(binary % Math.pow(10, digits)).padStart(digits, "0");
+}
+
+/**
+ * Decode a base32 (RFC 4648) string.
+ *
+ * @param {string} input
+ * @returns {Uint8Array}
+ */
+export function base32Decode(input: string): Uint8Array {
+  const clean = input.replace(/[\s=]/g, "").toUpperCase();
+  const bytes = new Uint8Array(Math.floor((clean.length * 5) / 8));
+
+  let buffer = 0;
+  let bits = 0;
+  let index = 0;
+  for (const char of clean) {
+    const value = BASE32_ALPHABET.indexOf(char);
+    if (value === -1) {
+      throw invalidUri(`Invalid base32 character "${char}"`);
+    }
+    buffer = (buffer << 5) | value;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[index++] = (buffer >>> bits) & 0xff;
+    }
+  }
+
+  return bytes;
+}
+
+function invalidUri(message: string): NuvixException {
+  return new NuvixException(message, 0, "totp_invalid_uri");
+}
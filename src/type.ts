@@ -1,7 +1,7 @@
 import { DatabaseTypes } from "./builders/types";
 import type { BaseClient, Models } from "./base-client";
 import { NuvixException } from "./error";
-// import { Socket } from "socket.io-client";
+import type { FetchAdapter, StorageAdapter } from "./adapters";
 
 /**
  * Payload type representing a key-value pair with string keys and any values.
@@ -42,14 +42,14 @@ export type RealtimeResponse = {
  */
 export type RealtimeRequest = {
   /**
-   * Type of the request: 'authentication'.
+   * Type of the request: 'authentication' or 'ping'.
    */
-  type: "authentication";
+  type: "authentication" | "ping";
 
   /**
    * Data required for authentication.
    */
-  data: RealtimeRequestAuthenticate;
+  data?: RealtimeRequestAuthenticate;
 };
 
 /**
@@ -142,97 +142,97 @@ export type TimeoutHandle = ReturnType<typeof setTimeout> | number;
 /**
  * Realtime interface representing the structure of a realtime communication object.
  */
-// export type Realtime = {
-//   /**
-//    * WebSocket instance for realtime communication.
-//    */
-//   socket?: Socket;
-
-//   /**
-//    * Timeout for reconnect operations.
-//    */
-//   timeout?: TimeoutHandle;
-
-//   /**
-//    * Heartbeat interval for the realtime connection.
-//    */
-//   heartbeat?: TimeoutHandle;
-
-//   /**
-//    * URL for establishing the WebSocket connection.
-//    */
-//   url?: string;
-
-//   /**
-//    * Last received message from the realtime server.
-//    */
-//   lastMessage?: RealtimeResponse;
-
-//   /**
-//    * Set of channel names the client is subscribed to.
-//    */
-//   channels: Set<string>;
-
-//   /**
-//    * Map of subscriptions containing channel names and corresponding callback functions.
-//    */
-//   subscriptions: Map<
-//     number,
-//     {
-//       channels: string[];
-//       callback: (payload: RealtimeResponseEvent<any>) => void;
-//     }
-//   >;
-
-//   /**
-//    * Counter for managing subscriptions.
-//    */
-//   subscriptionsCounter: number;
-
-//   /**
-//    * Boolean indicating whether automatic reconnection is enabled.
-//    */
-//   reconnect: boolean;
-
-//   /**
-//    * Number of reconnection attempts made.
-//    */
-//   reconnectAttempts: number;
-
-//   /**
-//    * Function to get the timeout duration for communication operations.
-//    */
-//   getTimeout: () => number;
-
-//   /**
-//    * Function to establish a WebSocket connection.
-//    */
-//   connect: () => void;
-
-//   /**
-//    * Function to create a new WebSocket instance.
-//    */
-//   createSocket: () => void;
-
-//   /**
-//    * Function to create a new heartbeat interval.
-//    */
-//   createHeartbeat: () => void;
-
-//   /**
-//    * Function to clean up resources associated with specified channels.
-//    *
-//    * @param {string[]} channels - List of channel names to clean up.
-//    */
-//   cleanUp: (channels: string[]) => void;
-
-//   /**
-//    * Function to handle incoming messages from the WebSocket connection.
-//    *
-//    * @param {MessageEvent} event - Event containing the received message.
-//    */
-//   onMessage: (event: MessageEvent) => void;
-// };
+export type Realtime = {
+  /**
+   * WebSocket instance for realtime communication.
+   */
+  socket?: WebSocket;
+
+  /**
+   * Timeout for reconnect operations.
+   */
+  timeout?: TimeoutHandle;
+
+  /**
+   * Heartbeat interval for the realtime connection.
+   */
+  heartbeat?: TimeoutHandle;
+
+  /**
+   * URL for establishing the WebSocket connection.
+   */
+  url?: string;
+
+  /**
+   * Last received message from the realtime server.
+   */
+  lastMessage?: RealtimeResponse;
+
+  /**
+   * Set of channel names the client is subscribed to.
+   */
+  channels: Set<string>;
+
+  /**
+   * Map of subscriptions containing channel names and corresponding callback functions.
+   */
+  subscriptions: Map<
+    number,
+    {
+      channels: string[];
+      callback: (payload: RealtimeResponseEvent<any>) => void;
+    }
+  >;
+
+  /**
+   * Counter for managing subscriptions.
+   */
+  subscriptionsCounter: number;
+
+  /**
+   * Boolean indicating whether automatic reconnection is enabled.
+   */
+  reconnect: boolean;
+
+  /**
+   * Number of reconnection attempts made.
+   */
+  reconnectAttempts: number;
+
+  /**
+   * Function to get the timeout duration for communication operations.
+   */
+  getTimeout: () => number;
+
+  /**
+   * Function to establish a WebSocket connection.
+   */
+  connect: () => void;
+
+  /**
+   * Function to create a new WebSocket instance.
+   */
+  createSocket: () => void;
+
+  /**
+   * Function to create a new heartbeat interval.
+   */
+  createHeartbeat: () => void;
+
+  /**
+   * Function to clean up resources associated with specified channels.
+   *
+   * @param {string[]} channels - List of channel names to clean up.
+   */
+  cleanUp: (channels: string[]) => void;
+
+  /**
+   * Function to handle incoming messages from the WebSocket connection.
+   *
+   * @param {MessageEvent} event - Event containing the received message.
+   */
+  onMessage: (event: MessageEvent) => void;
+};
 
 /**
  * Type representing upload progress information.
@@ -264,6 +264,167 @@ export type UploadProgress = {
   chunksUploaded: number;
 };
 
+/**
+ * Upload in progress, persisted to resume it after a reload.
+ */
+export type SavedUpload = {
+  /**
+   * ID of the file being uploaded.
+   */
+  $id: string;
+
+  /**
+   * Size of the chunks the upload started with, in bytes.
+   */
+  chunkSize: number;
+
+  /**
+   * Indexes of the chunks received by the server.
+   */
+  chunks?: number[];
+};
+
+/**
+ * Options of chunked uploads.
+ */
+export type UploadOptions = {
+  /**
+   * Size of the chunks in bytes. Defaults to `BaseClient.CHUNK_SIZE` (5MB).
+   */
+  chunkSize?: number;
+
+  /**
+   * Number of chunks sent in parallel. Defaults to 1.
+   */
+  concurrency?: number;
+};
+
+/**
+ * Request passed through the middleware chain.
+ *
+ * Middlewares may mutate any field before the request is sent.
+ */
+export type RequestContext = {
+  /**
+   * HTTP method, upper-cased.
+   */
+  method: string;
+
+  /**
+   * Request URL, without the serialized query of GET params.
+   */
+  url: URL;
+
+  /**
+   * Request headers, including the client-wide headers.
+   */
+  headers: Headers;
+
+  /**
+   * Request params, sent as query for GET and as body otherwise.
+   */
+  params: Payload;
+
+  /**
+   * Expected response type for non JSON responses.
+   */
+  responseType: string;
+
+  /**
+   * Per-call options.
+   */
+  options: RequestOptions;
+};
+
+/**
+ * Middleware hooks registered with `client.use()`.
+ */
+export type Middleware = {
+  /**
+   * Called before the request is sent, in registration order.
+   * Returning a value other than `undefined` skips the network and uses it as the response.
+   */
+  onRequest?: (request: RequestContext) => unknown | Promise<unknown>;
+
+  /**
+   * Called with the response data, in registration order.
+   * Returning a value other than `undefined` replaces the response.
+   */
+  onResponse?: (
+    response: any,
+    request: RequestContext,
+  ) => unknown | Promise<unknown>;
+
+  /**
+   * Called when the request fails, in registration order.
+   * Returning a `NuvixException` replaces the error, while any other value
+   * except `undefined` recovers from it and is used as the response.
+   */
+  onError?: (
+    error: NuvixException,
+    request: RequestContext,
+  ) => unknown | Promise<unknown>;
+};
+
+/**
+ * Retry policy for transient failures.
+ */
+export type RetryOptions = {
+  /**
+   * Maximum number of attempts, including the first request.
+   */
+  attempts: number;
+
+  /**
+   * Base delay before the first retry, in milliseconds.
+   */
+  minDelay: number;
+
+  /**
+   * Upper bound of a single delay, in milliseconds.
+   * A `Retry-After` longer than this is not waited for.
+   */
+  maxDelay: number;
+
+  /**
+   * HTTP methods retried without opting in per call.
+   */
+  methods: string[];
+
+  /**
+   * Response status codes considered transient.
+   */
+  statusCodes: number[];
+};
+
+/**
+ * Per-call request options.
+ */
+export type RequestOptions = {
+  /**
+   * Retry policy for this call, merged over the client policy.
+   * `true` opts in methods that are not retried by default, such as POST.
+   * `false` disables retries.
+   */
+  retry?: boolean | Partial<RetryOptions>;
+
+  /**
+   * Signal that cancels the request, rejecting with a `NuvixAbortException`.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Time limit for the request including retries, in milliseconds.
+   * Overrides the client default timeout; `0` disables it.
+   */
+  timeoutMs?: number;
+
+  /**
+   * Called with the raw response before it is parsed, e.g. to read its headers.
+   */
+  onResponse?: (response: Response) => void;
+};
+
 /**
  * BaseClient configuration
  */
@@ -276,23 +437,73 @@ export interface Config {
   session: string;
 }
 
+/**
+ * Options of the `client.auth` session manager.
+ */
+export type AuthOptions = {
+  /**
+   * Refresh the session before it expires. Defaults to true in browsers.
+   */
+  autoRefresh?: boolean;
+
+  /**
+   * How long before expiry the session is refreshed, in milliseconds.
+   */
+  refreshMargin?: number;
+
+  /**
+   * Sync the auth state across browser tabs. Defaults to true in browsers.
+   */
+  syncTabs?: boolean;
+};
+
+/**
+ * BaseClient constructor options
+ */
+export type ClientOptions<IsSafe extends boolean> = Partial<
+  Omit<Config, "endpointRealtime">
+> & {
+  safeResponse?: IsSafe;
+  retry?: Partial<RetryOptions>;
+  timeoutMs?: number;
+  /**
+   * Fetch implementation, defaults to the global `fetch`.
+   */
+  fetch?: FetchAdapter;
+  /**
+   * Storage persisting the session cookie fallback.
+   * Defaults to `localStorage` in browsers and to none elsewhere.
+   */
+  sessionStorage?: StorageAdapter | null;
+  auth?: AuthOptions;
+  /**
+   * Default chunk size and concurrency of chunked uploads.
+   */
+  upload?: UploadOptions;
+};
+
 interface SuccessResponse<T> {
+  ok: true;
   data: T;
   error: null;
 }
 
 interface ErrorResponse {
+  ok: false;
   data: null;
   error: NuvixException;
 }
 
-export type SafeResponse<T> =
-  | (T extends { data: any[]; total: number }
-      ? T & { error: null }
-      : SuccessResponse<T>)
-  | (T extends { data: any[]; total: number }
-      ? ErrorResponse & { total: undefined }
-      : ErrorResponse);
+/**
+ * Outcome of a request in safe response mode, discriminated by `ok`.
+ */
+export type Result<T> = SuccessResponse<T> | ErrorResponse;
+
+export type SafeResponse<T> = T extends { data: any[]; total: number }
+  ? (T & { ok: true; error: null }) | (ErrorResponse & { total?: undefined })
+  : T extends { data: any; count: number | null }
+    ? (T & { ok: true; error: null }) | (ErrorResponse & { count?: undefined })
+    : Result<T>;
 
 export type ResponseType<
   T extends BaseClient,
@@ -314,6 +525,29 @@ export interface OtherSchema {
 
 export type Schemas = Record<string, CollectionSchema | OtherSchema>;
 
+/**
+ * Request and response bodies of a function, decoded from JSON.
+ */
+export type FunctionSchema = {
+  Body: unknown;
+  Response: unknown;
+};
+
+/**
+ * Functions of the project by ID, used to type `functions.invoke`.
+ *
+ * @example
+ * ```ts
+ * type MyFunctions = {
+ *   "resize-image": {
+ *     Body: { fileId: string; width: number };
+ *     Response: { fileId: string };
+ *   };
+ * };
+ * ```
+ */
+export type FunctionsSchema = Record<string, FunctionSchema>;
+
 export type GetTableOrView<
   T extends Schemas,
   Schema extends keyof T,
@@ -0,0 +1,642 @@
+import { BaseClient, NuvixAbortException, NuvixException } from "./base-client";
+import { toNuvixException } from "./error";
+import { ID } from "./id";
+import type { Models } from "./models";
+import type { Storage } from "./services/storage";
+import type { ResponseType, UploadOptions, UploadProgress } from "./type";
+
+export type UploadState =
+  "running" | "paused" | "completed" | "failed" | "cancelled";
+
+export type UploadProgressCallback = (progress: UploadProgress) => void;
+
+export type UploadStateCallback = (state: UploadState) => void;
+
+/**
+ * Controls a running chunked upload, see `BaseClient.chunkedUpload`.
+ */
+export interface UploadControl {
+  /**
+   * Signal of the requests in flight, aborted on pause and cancel.
+   */
+  readonly signal: AbortSignal;
+
+  /**
+   * Resolves once the upload may go on, rejects once it is cancelled.
+   */
+  ready(): Promise<void>;
+
+  progress(progress: UploadProgress): void;
+}
+
+/**
+ * UploadTask
+ *
+ * Handle of a file upload. Await it to get the uploaded file, as with any
+ * other request. Pausing aborts the chunks in flight, which are sent again
+ * on resume; chunks already received by the server are kept.
+ *
+ * Progress is reported in bytes each time a chunk is received by the server.
+ * Use a smaller `chunkSize` for finer progress.
+ *
+ * @example
+ * ```ts
+ * const task = storage.createFile("<BUCKET_ID>", ID.unique(), file);
+ * task.onProgress(({ sizeUploaded }) => console.log(sizeUploaded));
+ * pauseButton.onclick = () => task.pause();
+ * resumeButton.onclick = () => task.resume();
+ * const uploaded = await task;
+ * ```
+ */
+export class UploadTask<T extends BaseClient, R> implements PromiseLike<
+  ResponseType<T, R>
+> {
+  /**
+   * Last progress reported, null before the first chunk.
+   */
+  progress: UploadProgress | null = null;
+
+  private _state: UploadState = "running";
+  private controller = new AbortController();
+  private resumed: (() => void) | null = null;
+  private waiting: Promise<void> | null = null;
+  private progressListeners = new Set<UploadProgressCallback>();
+  private stateListeners = new Set<UploadStateCallback>();
+  private promise: Promise<ResponseType<T, R>>;
+
+  constructor(
+    client: T,
+    run: (control: UploadControl) => Promise<R>,
+    signal?: AbortSignal,
+  ) {
+    const task = this;
+    const control: UploadControl = {
+      get signal() {
+        return task.controller.signal;
+      },
+      ready: () => this.ready(),
+      progress: (progress) => this.setProgress(progress),
+    };
+
+    if (signal?.aborted) {
+      this.cancel();
+    } else {
+      signal?.addEventListener("abort", () => this.cancel(), { once: true });
+    }
+
+    const upload: Promise<any> = (async () => {
+      try {
+        await this.ready();
+        const result = await run(control);
+        this.setState("completed");
+        return result;
+      } catch (e) {
+        if (this._state !== "cancelled") this.setState("failed");
+        throw e;
+      }
+    })();
+    this.promise = client.withSafeResponse(() => upload);
+  }
+
+  /**
+   * The current state of the upload.
+   */
+  get state(): UploadState {
+    return this._state;
+  }
+
+  /**
+   * Stop sending chunks until `resume` is called.
+   */
+  pause(): void {
+    if (this._state !== "running") return;
+    this.waiting = new Promise((resolve) => {
+      this.resumed = resolve;
+    });
+    this.setState("paused");
+    this.controller.abort();
+  }
+
+  /**
+   * Continue a paused upload.
+   */
+  resume(): void {
+    if (this._state !== "paused") return;
+    this.controller = new AbortController();
+    this.setState("running");
+    this.release();
+  }
+
+  /**
+   * Stop the upload. The task rejects with a `NuvixAbortException`, or
+   * resolves to its error in safe response mode.
+   */
+  cancel(): void {
+    if (this._state !== "running" && this._state !== "paused") return;
+    this.setState("cancelled");
+    this.controller.abort();
+    this.release();
+  }
+
+  /**
+   * Listen to the progress of the upload.
+   *
+   * @param {UploadProgressCallback} callback
+   * @returns {() => void} Function to remove the listener.
+   */
+  onProgress(callback: UploadProgressCallback): () => void {
+    this.progressListeners.add(callback);
+    return () => {
+      this.progressListeners.delete(callback);
+    };
+  }
+
+  /**
+   * Listen to state changes.
+   *
+   * @param {UploadStateCallback} callback
+   * @returns {() => void} Function to remove the listener.
+   */
+  onStateChange(callback: UploadStateCallback): () => void {
+    this.stateListeners.add(callback);
+    return () => {
+      this.stateListeners.delete(callback);
+    };
+  }
+
+  then<TResult1 = ResponseType<T, R>, TResult2 = never>(
+    onfulfilled?:
+      ((value: ResponseType<T, R>) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null,
+  ): Promise<TResult1 | TResult2> {
+    return this.promise.then(onfulfilled, onrejected);
+  }
+
+  catch<TResult = never>(
+    onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | null,
+  ): Promise<ResponseType<T, R> | TResult> {
+    return this.promise.catch(onrejected);
+  }
+
+  finally(onfinally?: (() => void) | null): Promise<ResponseType<T, R>> {
+    return this.promise.finally(onfinally);
+  }
+
+  private async ready(): Promise<void> {
+    while (this.waiting) await this.waiting;
+    if (this._state === "cancelled") {
+      throw new NuvixAbortException("Upload was cancelled", "aborted");
+    }
+  }
+
+  private release(): void {
+    this.resumed?.();
+    this.resumed = null;
+    this.waiting = null;
+  }
+
+  private setProgress(progress: UploadProgress): void {
+    this.progress = progress;
+    for (const listener of [...this.progressListeners]) {
+      try {
+        listener(progress);
+      } catch (e) {
+        console.error(e);
+      }
+    }
+  }
+
+  private setState(state: UploadState): void {
+    this._state = state;
+    for (const listener of [...this.stateListeners]) {
+      try {
+        listener(state);
+      } catch (e) {
+        console.error(e);
+      }
+    }
+  }
+}
+
+export type UploadQueueStatus =
+  "queued" | "uploading" | "completed" | "failed" | "cancelled";
+
+/**
+ * File of an `UploadQueue`. Items are updated in place.
+ */
+export type UploadQueueItem = {
+  /**
+   * ID of the file in the bucket.
+   */
+  $id: string;
+  file: File;
+  status: UploadQueueStatus;
+
+  /**
+   * Last progress reported, null before the first chunk.
+   */
+  progress: UploadProgress | null;
+
+  /**
+   * Number of uploads started, including retries.
+   */
+  attempts: number;
+  result: Models.File | null;
+  error: NuvixException | null;
+};
+
+/**
+ * Progress of all the files of an `UploadQueue`, except cancelled ones.
+ */
+export type UploadQueueProgress = {
+  /**
+   * Bytes uploaded in percentage.
+   */
+  progress: number;
+  sizeUploaded: number;
+  sizeTotal: number;
+  filesTotal: number;
+  filesCompleted: number;
+  filesFailed: number;
+};
+
+/**
+ * Options of `Storage.uploadQueue`.
+ */
+export type UploadQueueOptions = {
+  /**
+   * Number of files uploaded in parallel. Defaults to 3.
+   */
+  concurrency?: number;
+
+  /**
+   * Maximum number of uploads of a file, including the first one. Defaults to 3.
+   */
+  attempts?: number;
+
+  /**
+   * Delay before the first retry of a file, doubled on each retry, in milliseconds. Defaults to 1000.
+   */
+  retryDelay?: number;
+
+  permissions?: string[];
+
+  /**
+   * ID of the file in the bucket. Defaults to `ID.unique()`.
+   */
+  fileId?: (file: File) => string;
+
+  /**
+   * Chunk size and concurrency of each file, defaults to the client options.
+   */
+  upload?: UploadOptions;
+};
+
+export type UploadQueueItemCallback = (item: UploadQueueItem) => void;
+
+export type UploadQueueProgressCallback = (
+  progress: UploadQueueProgress,
+) => void;
+
+export type UploadQueueIdleCallback = (items: UploadQueueItem[]) => void;
+
+/**
+ * UploadQueue
+ *
+ * Uploads many files to a bucket, a few at a time. Files failing with a
+ * network error, a 429 or a 5xx status are retried with backoff, resuming
+ * from their last uploaded chunk.
+ *
+ * @example
+ * ```ts
+ * const queue = client.storage.uploadQueue("<BUCKET_ID>");
+ * queue.onItemChange((item) => render(item));
+ * queue.onProgress(({ progress }) => (bar.value = progress));
+ * dropzone.ondrop = (e) => queue.add(e.dataTransfer.files);
+ * ```
+ */
+export class UploadQueue<T extends BaseClient> {
+  readonly bucketId: string;
+
+  private storage: Storage<T>;
+  private options: UploadQueueOptions;
+  private _items: UploadQueueItem[] = [];
+  private _paused = false;
+  private idle = true;
+  private tasks = new Map<UploadQueueItem, UploadTask<T, Models.File>>();
+  private itemListeners = new Set<UploadQueueItemCallback>();
+  private progressListeners = new Set<UploadQueueProgressCallback>();
+  private idleListeners = new Set<UploadQueueIdleCallback>();
+
+  constructor(
+    storage: Storage<T>,
+    bucketId: string,
+    options: UploadQueueOptions = {},
+  ) {
+    this.storage = storage;
+    this.bucketId = bucketId;
+    this.options = options;
+  }
+
+  /**
+   * The files of the queue, in the order they were added.
+   */
+  get items(): readonly UploadQueueItem[] {
+    return this._items;
+  }
+
+  get paused(): boolean {
+    return this._paused;
+  }
+
+  /**
+   * Progress of all the files.
+   */
+  get progress(): UploadQueueProgress {
+    const progress: UploadQueueProgress = {
+      progress: 0,
+      sizeUploaded: 0,
+      sizeTotal: 0,
+      filesTotal: 0,
+      filesCompleted: 0,
+      filesFailed: 0,
+    };
+    for (const item of this._items) {
+      if (item.status === "cancelled") continue;
+      progress.filesTotal++;
+      progress.sizeTotal += item.file.size;
+      if (item.status === "completed") {
+        progress.filesCompleted++;
+        progress.sizeUploaded += item.file.size;
+      } else {
+        if (item.status === "failed") progress.filesFailed++;
+        progress.sizeUploaded += item.progress?.sizeUploaded ?? 0;
+      }
+    }
+    progress.progress = progress.sizeTotal
+      ? Math.round((progress.sizeUploaded / progress.sizeTotal) * 100)
+      : 100;
+    return progress;
+  }
+
+  /**
+   * Add files to the queue. Uploads start right away unless paused.
+   *
+   * @param {File | Iterable<File> | ArrayLike<File>} files - Files, e.g. the `FileList` of a drop event.
+   * @returns {UploadQueueItem[]} The added items.
+   */
+  add(files: File | Iterable<File> | ArrayLike<File>): UploadQueueItem[] {
+    const list = files instanceof File ? [files] : Array.from(files);
+    const items = list.map((file): UploadQueueItem => ({
+      $id: this.options.fileId?.(file) ?? ID.unique(),
+      file,
+      status: "queued",
+      progress: null,
+      attempts: 0,
+      result: null,
+      error: null,
+    }));
+    this._items.push(...items);
+    if (items.length) this.idle = false;
+    items.forEach((item) => this.emitItem(item));
+    this.emitProgress();
+    this.next();
+    return items;
+  }
+
+  /**
+   * Pause the uploads in progress and stop starting new ones.
+   */
+  pause(): void {
+    this._paused = true;
+    this.tasks.forEach((task) => task.pause());
+  }
+
+  resume(): void {
+    this._paused = false;
+    this.tasks.forEach((task) => task.resume());
+    this.next();
+  }
+
+  /**
+   * Cancel a file, or every file not uploaded yet.
+   *
+   * @param {string} fileId
+   */
+  cancel(fileId?: string): void {
+    for (const item of this.find(fileId)) {
+      if (item.status !== "queued" && item.status !== "uploading") continue;
+      item.status = "cancelled";
+      this.tasks.get(item)?.cancel();
+      this.emitItem(item);
+    }
+    this.emitProgress();
+    this.checkIdle();
+  }
+
+  /**
+   * Upload a failed file again, or every failed file.
+   *
+   * @param {string} fileId
+   */
+  retry(fileId?: string): void {
+    for (const item of this.find(fileId)) {
+      if (item.status !== "failed") continue;
+      item.status = "queued";
+      item.attempts = 0;
+      item.error = null;
+      this.idle = false;
+      this.emitItem(item);
+    }
+    this.emitProgress();
+    this.next();
+  }
+
+  /**
+   * Remove the completed, failed and cancelled files from the queue.
+   */
+  clear(): void {
+    this._items = this._items.filter(
+      (item) => item.status === "queued" || item.status === "uploading",
+    );
+    this.emitProgress();
+  }
+
+  /**
+   * Wait until no file is queued or uploading.
+   *
+   * @returns {Promise<UploadQueueItem[]>} Every item of the queue.
+   */
+  done(): Promise<UploadQueueItem[]> {
+    if (this.isIdle()) return Promise.resolve([...this._items]);
+    return new Promise((resolve) => {
+      const remove = this.onIdle((items) => {
+        remove();
+        resolve(items);
+      });
+    });
+  }
+
+  /**
+   * Listen to changes of status and progress of each file.
+   *
+   * @param {UploadQueueItemCallback} callback
+   * @returns {() => void} Function to remove the listener.
+   */
+  onItemChange(callback: UploadQueueItemCallback): () => void {
+    this.itemListeners.add(callback);
+    return () => {
+      this.itemListeners.delete(callback);
+    };
+  }
+
+  /**
+   * Listen to the progress of all the files.
+   *
+   * @param {UploadQueueProgressCallback} callback
+   * @returns {() => void} Function to remove the listener.
+   */
+  onProgress(callback: UploadQueueProgressCallback): () => void {
+    this.progressListeners.add(callback);
+    return () => {
+      this.progressListeners.delete(callback);
+    };
+  }
+
+  /**
+   * Listen to the queue becoming idle, when no file is queued or uploading.
+   *
+   * @param {UploadQueueIdleCallback} callback
+   * @returns {() => void} Function to remove the listener.
+   */
+  onIdle(callback: UploadQueueIdleCallback): () => void {
+    this.idleListeners.add(callback);
+    return () => {
+      this.idleListeners.delete(callback);
+    };
+  }
+
+  private find(fileId?: string): UploadQueueItem[] {
+    return fileId === undefined
+      ? this._items
+      : this._items.filter((item) => item.$id === fileId);
+  }
+
+  private next(): void {
+    const { concurrency = 3 } = this.options;
+    let running = this._items.filter(
+      (item) => item.status === "uploading",
+    ).length;
+    for (const item of this._items) {
+      if (this._paused || running >= concurrency) return;
+      if (item.status === "queued") {
+        this.start(item);
+        running++;
+      }
+    }
+  }
+
+  private async start(item: UploadQueueItem): Promise<void> {
+    const {
+      attempts = 3,
+      retryDelay = 1000,
+      permissions,
+      upload,
+    } = this.options;
+    const client = this.storage.client;
+    item.status = "uploading";
+
+    while (item.status === "uploading") {
+      item.attempts++;
+      item.error = null;
+      const task = this.storage.createFile(
+        this.bucketId,
+        item.$id,
+        item.file,
+        permissions,
+        undefined,
+        upload,
+      );
+      this.tasks.set(item, task);
+      if (this._paused) task.pause();
+      task.onProgress((progress) => {
+        item.progress = progress;
+        this.emitItem(item);
+        this.emitProgress();
+      });
+      this.emitItem(item);
+
+      try {
+        item.result = await client.unwrap<Models.File>(task);
+        item.status = "completed";
+      } catch (e) {
+        if (item.status !== "uploading") break;
+        item.error = toNuvixException(e);
+        if (item.attempts >= attempts || !isTransient(item.error)) {
+          item.status = "failed";
+        } else {
+          this.emitItem(item);
+          await BaseClient.sleep(retryDelay * 2 ** (item.attempts - 1));
+        }
+      } finally {
+        this.tasks.delete(item);
+      }
+    }
+
+    this.emitItem(item);
+    this.emitProgress();
+    this.next();
+    this.checkIdle();
+  }
+
+  private isIdle(): boolean {
+    return !this._items.some(
+      (item) => item.status === "queued" || item.status === "uploading",
+    );
+  }
+
+  private checkIdle(): void {
+    if (this.idle || !this.isIdle()) return;
+    this.idle = true;
+    const items = [...this._items];
+    for (const listener of [...this.idleListeners]) {
+      try {
+        listener(items);
+      } catch (e) {
+        console.error(e);
+      }
+    }
+  }
+
+  private emitItem(item: UploadQueueItem): void {
+    for (const listener of [...this.itemListeners]) {
+      try {
+        listener(item);
+      } catch (e) {
+        console.error(e);
+      }
+    }
+  }
+
+  private emitProgress(): void {
+    if (!this.progressListeners.size) return;
+    const progress = this.progress;
+    for (const listener of [...this.progressListeners]) {
+      try {
+        listener(progress);
+      } catch (e) {
+        console.error(e);
+      }
+    }
+  }
+}
+
+/**
+ * Whether an upload failed with a network error, a 429 or a 5xx status.
+ */
+function isTransient(error: NuvixException): boolean {
+  if (error.type === "general_unknown" && error.cause instanceof Error) {
+    return true;
+  }
+  return error.code === 429 || (error.code >= 500 && error.code < 600);
+}